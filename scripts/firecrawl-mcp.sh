@@ -6,6 +6,7 @@ CONTAINER_NAME="firecrawl-mcp-server"
 DEFAULT_RESTART_POLICY="unless-stopped" # デフォルトの再起動ポリシー
 NETWORK_NAME="mcp-network" # 接続するDockerネットワーク
 DEFAULT_PORT_FROM_ENV="3006" # フォールバック値
+STOP_TIMEOUT="30" # 停止時の猶予（秒）。FIRECRAWL_SHUTDOWN_TIMEOUT より長く設定する
 
 # --- グローバル変数 ---
 # スクリプトの場所を取得
@@ -63,6 +64,7 @@ _show_help() {
   echo "  start          Dockerコンテナを起動します。"
   echo "  stop           Dockerコンテナを停止および削除します。"
   echo "  logs           Dockerコンテナのログを表示します。"
+  echo "  status         Dockerコンテナの状態とヘルスチェック結果を表示します。"
   echo "  delete         Dockerコンテナを停止・削除し、イメージも削除します（確認あり）。"
   echo "  help, -h, --help このヘルプメッセージを表示します。"
   echo ""
@@ -77,6 +79,7 @@ _show_help() {
   echo "  ${script_name} start -P 8080 -r always"
   echo "  ${script_name} stop"
   echo "  ${script_name} logs"
+  echo "  ${script_name} status"
   echo "  ${script_name} delete"
 }
 
@@ -150,8 +153,9 @@ _start_container() {
     --network "${NETWORK_NAME}" \
     -p "${port}:${port}" \
     --restart "${restart_policy}" \
+    --stop-timeout "${STOP_TIMEOUT}" \
     -v "${PROJECT_ROOT}/.env:/app/.env:ro" \
-    -e PORT="${port}" \
+    -e FIRECRAWL_PORT="${port}" \
     "${IMAGE_NAME}"
 
   local exit_code=$?
@@ -204,6 +208,24 @@ _show_logs() {
   return $?
 }
 
+# Dockerコンテナの状態とヘルスチェック結果を表示する関数
+_show_status() {
+  if [ -z "$(docker ps -aq -f name=^/${CONTAINER_NAME}$)" ]; then
+    echo "コンテナ '${CONTAINER_NAME}' は見つかりません。" >&2
+    return 1
+  fi
+  local state health
+  state=$(docker inspect -f '{{.State.Status}}' "${CONTAINER_NAME}")
+  health=$(docker inspect -f '{{if .State.Health}}{{.State.Health.Status}}{{else}}なし{{end}}' "${CONTAINER_NAME}")
+  echo "コンテナ '${CONTAINER_NAME}': ${state} (ヘルスチェック: ${health})"
+  if [ "$state" != "running" ]; then
+    return 1
+  fi
+  # readinessの詳細 (ツール登録・Firecrawl APIへの到達性) を表示
+  docker exec "${CONTAINER_NAME}" sh -c 'wget -q -O - "http://127.0.0.1:${FIRECRAWL_PORT:-3006}/readyz"; echo'
+  return 0
+}
+
 # コンテナとイメージを削除する関数
 _delete_all() {
   _stop_container # まずコンテナを停止・削除
@@ -267,6 +289,9 @@ case $COMMAND in
   logs)
     _show_logs
     ;;
+  status)
+    _show_status
+    ;;
   delete)
     _delete_all
     ;;
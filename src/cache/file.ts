@@ -0,0 +1,110 @@
+import { existsSync, readFileSync } from "node:fs";
+import { mkdir, rename, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import type { CacheEntry } from "./index.js";
+import { MemoryResponseCache } from "./memory.js";
+import { logger } from "../utils/logger.js";
+
+// 連続した更新をまとめて書き込むための待ち時間
+const SAVE_DEBOUNCE_MS = 1000;
+
+interface CacheFileContent {
+  // 参照順（先頭が最も古い）
+  entries: CacheEntry[];
+}
+
+/**
+ * JSONファイルに永続化するキャッシュ
+ * 読み込みは起動時に一度だけ行い、以降はメモリ上の内容を追加・削除のたびに（まとめて）書き出す
+ * 参照による順序の変化だけでは書き出さないため、再起動後の削除順は多少前後する
+ */
+export class FileResponseCache extends MemoryResponseCache {
+  private saveTimer?: NodeJS.Timeout;
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly path: string,
+    maxEntries: number
+  ) {
+    super(maxEntries);
+    this.load();
+  }
+
+  private load(): void {
+    if (!existsSync(this.path)) {
+      return;
+    }
+    try {
+      const content = JSON.parse(
+        readFileSync(this.path, "utf8")
+      ) as CacheFileContent;
+      const now = Date.now();
+      for (const entry of content.entries ?? []) {
+        if (entry.expiresAt > now) {
+          this.entries.set(entry.key, entry);
+        }
+      }
+      this.evict();
+    } catch (error) {
+      // キャッシュは作り直せるため、読み込めない場合は空の状態から始める
+      logger.warn("Failed to load response cache, starting empty", {
+        path: this.path,
+        error,
+      });
+    }
+  }
+
+  set(entry: CacheEntry): void {
+    super.set(entry);
+    this.scheduleSave();
+  }
+
+  delete(key: string): void {
+    super.delete(key);
+    this.scheduleSave();
+  }
+
+  async flush(): Promise<void> {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = undefined;
+      this.save();
+    }
+    await this.saving;
+  }
+
+  private scheduleSave(): void {
+    if (this.saveTimer) {
+      return;
+    }
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = undefined;
+      this.save();
+    }, SAVE_DEBOUNCE_MS);
+  }
+
+  // 書き込み途中で停止しても壊れたファイルが残らないよう、一時ファイルから置き換える
+  private save(): void {
+    const now = Date.now();
+    const content: CacheFileContent = {
+      entries: [...this.entries.values()].filter(
+        (entry) => entry.expiresAt > now
+      ),
+    };
+    const data = JSON.stringify(content);
+    const tempPath = `${this.path}.tmp`;
+
+    this.saving = this.saving
+      .then(async () => {
+        await mkdir(dirname(this.path), { recursive: true });
+        await writeFile(tempPath, data, "utf8");
+        await rename(tempPath, this.path);
+      })
+      .catch((error: unknown) => {
+        logger.error("Failed to save response cache", {
+          path: this.path,
+          error,
+        });
+      });
+  }
+}
@@ -0,0 +1,219 @@
+import { createHash } from "node:crypto";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import type { ToolMiddleware } from "../tools/middleware.js";
+import { readNumberEnv } from "../utils/env.js";
+import { logger } from "../utils/logger.js";
+import { recordCacheLookup } from "../utils/metrics.js";
+import { FileResponseCache } from "./file.js";
+import { MemoryResponseCache } from "./memory.js";
+
+/**
+ * キャッシュしたツールの結果
+ */
+export interface CacheEntry {
+  key: string;
+  result: CallToolResult;
+  storedAt: number; // Date.now()
+  expiresAt: number; // Date.now()
+}
+
+/**
+ * ツールの結果を保存するキャッシュ
+ * 上限件数を超えた場合は、最も長く参照されていないエントリから削除する（LRU）
+ */
+export interface ResponseCache {
+  // 期限切れのエントリは返さない
+  get(key: string): CacheEntry | undefined;
+  set(entry: CacheEntry): void;
+  delete(key: string): void;
+  // 未保存の変更を書き出す
+  flush(): Promise<void>;
+}
+
+// キャッシュの参照方法を指定する引数（Firecrawl APIには渡さない）
+export const CACHE_MAX_AGE_ARG = "maxAge";
+export const CACHE_BYPASS_ARG = "bypassCache";
+
+// キャッシュ対象ツールのスキーマに追加する引数
+export const CACHE_MAX_AGE_SCHEMA = z
+  .number()
+  .int()
+  .min(0)
+  .optional()
+  .describe(
+    "Maximum age in milliseconds of a cached result to accept. Older results are fetched again (0 always fetches)"
+  );
+export const CACHE_BYPASS_SCHEMA = z
+  .boolean()
+  .optional()
+  .describe(
+    "Skip the local cache and fetch a fresh result (the fresh result is cached)"
+  );
+
+/**
+ * キャッシュ対象のツールと、TTLの環境変数名・デフォルト（ミリ秒）
+ */
+const CACHEABLE_TOOLS: Record<string, { env: string; defaultTtlMs: number }> = {
+  firecrawl_scrape: {
+    env: "FIRECRAWL_CACHE_TTL_SCRAPE",
+    defaultTtlMs: 15 * 60 * 1000,
+  },
+  firecrawl_map: {
+    env: "FIRECRAWL_CACHE_TTL_MAP",
+    defaultTtlMs: 60 * 60 * 1000,
+  },
+  firecrawl_search: {
+    env: "FIRECRAWL_CACHE_TTL_SEARCH",
+    defaultTtlMs: 10 * 60 * 1000,
+  },
+};
+
+/**
+ * ツールのキャッシュのTTL（ミリ秒、0の場合はキャッシュしない）
+ * - FIRECRAWL_CACHE_TTL_SCRAPE（デフォルト: 15分）
+ * - FIRECRAWL_CACHE_TTL_MAP（デフォルト: 1時間）
+ * - FIRECRAWL_CACHE_TTL_SEARCH（デフォルト: 10分）
+ */
+export function getCacheTtl(toolName: string): number {
+  const config = CACHEABLE_TOOLS[toolName];
+  return config ? readNumberEnv(config.env, config.defaultTtlMs) : 0;
+}
+
+/**
+ * 環境変数に従ってキャッシュを作成する（無効の場合はundefined）
+ * - FIRECRAWL_CACHE: memory（デフォルト）、file または off
+ * - FIRECRAWL_CACHE_PATH: file の保存先（デフォルト: ./data/cache.json）
+ * - FIRECRAWL_CACHE_MAX_ENTRIES: 保持する件数の上限（デフォルト: 200）
+ */
+export function createResponseCache(): ResponseCache | undefined {
+  const type = process.env.FIRECRAWL_CACHE || "memory";
+  const maxEntries = readNumberEnv("FIRECRAWL_CACHE_MAX_ENTRIES", 200);
+  switch (type) {
+    case "off":
+      return undefined;
+    case "memory":
+      return new MemoryResponseCache(maxEntries);
+    case "file":
+      return new FileResponseCache(
+        process.env.FIRECRAWL_CACHE_PATH || "./data/cache.json",
+        maxEntries
+      );
+    default:
+      throw new Error(
+        `Unknown FIRECRAWL_CACHE "${type}" (expected "memory", "file" or "off")`
+      );
+  }
+}
+
+let responseCache: ResponseCache | undefined | null;
+
+/**
+ * プロセス共通のキャッシュを取得する（初回呼び出し時に作成する。無効の場合はundefined）
+ */
+export function getResponseCache(): ResponseCache | undefined {
+  if (responseCache === undefined) {
+    responseCache = createResponseCache() ?? null;
+  }
+  return responseCache ?? undefined;
+}
+
+// 引数の順序や末尾のスラッシュなど、結果に影響しない違いをそろえる
+function normalizeValue(key: string | undefined, value: unknown): unknown {
+  if (key === "url" && typeof value === "string") {
+    try {
+      // URL クラスはパスのない URL に "/" を付けるため、末尾のスラッシュはすべて除いてそろえる
+      return new URL(value).href.replace(/\/+$/, "");
+    } catch {
+      return value.replace(/\/+$/, "");
+    }
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => normalizeValue(undefined, item));
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .filter(
+          (name) => (value as Record<string, unknown>)[name] !== undefined
+        )
+        .map((name) => [
+          name,
+          normalizeValue(name, (value as Record<string, unknown>)[name]),
+        ])
+    );
+  }
+  return value;
+}
+
+/**
+ * キャッシュのキーを作成する（Firecrawlアカウント・ツール名・正規化した引数から決まる）
+ * @param tenantId Firecrawlアカウントのテナント ID
+ * @param toolName ツール名
+ * @param args ツールの引数（キャッシュの参照方法を指定する引数は除く）
+ */
+export function responseCacheKey(
+  tenantId: string,
+  toolName: string,
+  args: Record<string, unknown>
+): string {
+  return createHash("sha256")
+    .update(
+      `${tenantId}\n${toolName}\n${JSON.stringify(normalizeValue(undefined, args))}`
+    )
+    .digest("hex");
+}
+
+// 出力サイズの上限で末尾が切り詰められても残るよう、キャッシュの状態は先頭に付ける
+function withCacheStatus(
+  result: CallToolResult,
+  status: string
+): CallToolResult {
+  return {
+    ...result,
+    content: [{ type: "text", text: `Cache: ${status}` }, ...result.content],
+  };
+}
+
+/**
+ * scrape・map・search の結果をキャッシュするミドルウェア
+ * 同じ引数の呼び出しにはキャッシュした結果を返し、クレジットの消費を避ける
+ * エラーになった呼び出し・キャンセルされた呼び出しの結果はキャッシュしない
+ * @param tenantId Firecrawlアカウントのテナント ID（他のアカウントとキャッシュを共有しない）
+ */
+export function responseCacheMiddleware(tenantId: string): ToolMiddleware {
+  return async ({ toolName, args, extra }, next) => {
+    const maxAge = args[CACHE_MAX_AGE_ARG];
+    const bypass = args[CACHE_BYPASS_ARG] === true;
+    // 参照方法の引数はFirecrawl APIに渡さないよう、ハンドラーに届く前に取り除く
+    delete args[CACHE_MAX_AGE_ARG];
+    delete args[CACHE_BYPASS_ARG];
+
+    const cache = getResponseCache();
+    const ttl = getCacheTtl(toolName);
+    if (!cache || ttl <= 0) {
+      return next();
+    }
+
+    const key = responseCacheKey(tenantId, toolName, args);
+    const cached = bypass ? undefined : cache.get(key);
+    const age = cached ? Date.now() - cached.storedAt : 0;
+    if (cached && (typeof maxAge !== "number" || age <= maxAge)) {
+      recordCacheLookup("hit");
+      logger.debug("Returning cached result", { ageMs: age });
+      return withCacheStatus(
+        cached.result,
+        `hit (cached ${Math.round(age / 1000)}s ago; set bypassCache: true to fetch a fresh result)`
+      );
+    }
+    recordCacheLookup(bypass ? "bypass" : "miss");
+
+    const result = await next();
+    if (!result.isError && !extra.signal.aborted) {
+      const now = Date.now();
+      cache.set({ key, result, storedAt: now, expiresAt: now + ttl });
+    }
+    return withCacheStatus(result, bypass ? "bypassed" : "miss");
+  };
+}
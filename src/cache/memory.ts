@@ -0,0 +1,46 @@
+import type { CacheEntry, ResponseCache } from "./index.js";
+
+/**
+ * プロセス内のみで保持するキャッシュ（再起動で失われる）
+ * Map の挿入順を参照順として使い、上限を超えた場合は先頭（最も古く参照されたもの）から削除する
+ */
+export class MemoryResponseCache implements ResponseCache {
+  protected entries = new Map<string, CacheEntry>();
+
+  constructor(protected readonly maxEntries: number) {}
+
+  get(key: string): CacheEntry | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    this.entries.delete(key);
+    if (entry.expiresAt <= Date.now()) {
+      return undefined;
+    }
+    // 参照したエントリを末尾に移し、最近使ったものとして扱う
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  set(entry: CacheEntry): void {
+    this.entries.delete(entry.key);
+    this.entries.set(entry.key, entry);
+    this.evict();
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  async flush(): Promise<void> {}
+
+  protected evict(): void {
+    for (const key of this.entries.keys()) {
+      if (this.entries.size <= this.maxEntries) {
+        break;
+      }
+      this.entries.delete(key);
+    }
+  }
+}
@@ -0,0 +1,162 @@
+import { createHash, timingSafeEqual } from "node:crypto";
+import { readFileSync } from "node:fs";
+import type { NextFunction, Request, RequestHandler, Response } from "express";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { logger } from "../utils/logger.js";
+
+/**
+ * 名前付きの静的APIトークン
+ */
+export interface AuthToken {
+  name: string;
+  token: string;
+}
+
+/**
+ * 認証済みリクエスト
+ * SDKのトランスポートは req.auth をツールハンドラーの extra.authInfo として渡す
+ */
+export type AuthenticatedRequest = Request & { auth?: AuthInfo };
+
+/**
+ * 環境変数・設定ファイルから認証トークンを読み込む
+ * - FIRECRAWL_AUTH_TOKENS: "name:token" をカンマ区切りで指定（名前省略時は token1, token2, ...）
+ * - FIRECRAWL_AUTH_TOKENS_FILE: [{ "name": "...", "token": "..." }] 形式のJSONファイル
+ */
+export function loadAuthTokens(): AuthToken[] {
+  const tokens: AuthToken[] = [];
+
+  const fromEnv = process.env.FIRECRAWL_AUTH_TOKENS;
+  if (fromEnv) {
+    fromEnv
+      .split(",")
+      .map((entry) => entry.trim())
+      .filter((entry) => entry !== "")
+      .forEach((entry, index) => {
+        const separator = entry.indexOf(":");
+        tokens.push(
+          separator > 0
+            ? {
+                name: entry.slice(0, separator),
+                token: entry.slice(separator + 1),
+              }
+            : { name: `token${index + 1}`, token: entry }
+        );
+      });
+  }
+
+  const file = process.env.FIRECRAWL_AUTH_TOKENS_FILE;
+  if (file) {
+    const parsed: unknown = JSON.parse(readFileSync(file, "utf8"));
+    if (!Array.isArray(parsed)) {
+      throw new Error(`${file} must contain a JSON array of tokens`);
+    }
+    for (const entry of parsed) {
+      if (
+        !entry ||
+        typeof entry.name !== "string" ||
+        typeof entry.token !== "string"
+      ) {
+        throw new Error(`${file} contains an invalid token entry`);
+      }
+      tokens.push({ name: entry.name, token: entry.token });
+    }
+  }
+
+  const emptyToken = tokens.find((entry) => entry.token === "");
+  if (emptyToken) {
+    throw new Error(`Auth token "${emptyToken.name}" must not be empty`);
+  }
+  return tokens;
+}
+
+// 長さの異なる値でも一定時間で比較できるよう、ハッシュ値同士を比較する
+function digest(value: string): Buffer {
+  return createHash("sha256").update(value).digest();
+}
+
+/**
+ * Bearerトークンの検証
+ */
+export class TokenAuthenticator {
+  private readonly tokens: { name: string; digest: Buffer }[];
+
+  constructor(tokens: AuthToken[]) {
+    this.tokens = tokens.map(({ name, token }) => ({
+      name,
+      digest: digest(token),
+    }));
+  }
+
+  /**
+   * トークンが1つ以上設定されている場合のみ認証を有効にする
+   */
+  get enabled(): boolean {
+    return this.tokens.length > 0;
+  }
+
+  /**
+   * トークンを検証し、一致したトークンの名前を返す
+   * タイミング攻撃を避けるため、一致しても途中で打ち切らずに全トークンと比較する
+   */
+  verify(token: string): string | undefined {
+    const candidate = digest(token);
+    let matched: string | undefined;
+    for (const entry of this.tokens) {
+      if (timingSafeEqual(candidate, entry.digest) && matched === undefined) {
+        matched = entry.name;
+      }
+    }
+    return matched;
+  }
+}
+
+function extractBearerToken(req: Request): string | undefined {
+  const header = req.headers.authorization;
+  if (!header) {
+    return undefined;
+  }
+  const match = header.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1].trim() : undefined;
+}
+
+/**
+ * Bearerトークン認証ミドルウェア
+ * 認証が無効な場合は何もしない。成功時は req.auth にトークン名 (clientId) を設定する
+ */
+export function requireBearerAuth(
+  authenticator: TokenAuthenticator
+): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!authenticator.enabled) {
+      next();
+      return;
+    }
+
+    const token = extractBearerToken(req);
+    const name = token ? authenticator.verify(token) : undefined;
+    if (!token || !name) {
+      logger.warn("Authentication failed", {
+        method: req.method,
+        path: req.baseUrl,
+        ip: req.ip,
+      });
+      res.setHeader("WWW-Authenticate", 'Bearer realm="firecrawl-mcp"');
+      res.status(401).json({
+        success: false,
+        error: { message: "Missing or invalid bearer token" },
+      });
+      return;
+    }
+
+    (req as AuthenticatedRequest).auth = { token, clientId: name, scopes: [] };
+    next();
+  };
+}
+
+/**
+ * リクエストの認証済みトークン名を取得する（認証が無効な場合はundefined）
+ */
+export function getAuthClientId(req: Request): string | undefined {
+  return (req as AuthenticatedRequest).auth?.clientId;
+}
@@ -0,0 +1,86 @@
+import type { Request } from "express";
+import type { FirecrawlCredentials } from "../server.js";
+
+// マルチテナントモードでクライアントが認証情報を渡すヘッダー
+export const API_KEY_HEADER = "X-Firecrawl-Api-Key";
+export const API_URL_HEADER = "X-Firecrawl-Api-Url";
+
+// Firecrawl公式のAPI URL（ヘッダーでの指定を常に受け付ける）
+const DEFAULT_API_URL = "https://api.firecrawl.dev";
+
+/**
+ * リクエストからセッションで使用するFirecrawlの認証情報を決定する関数
+ * 決定できない場合はundefinedを返す
+ * @throws CredentialError ヘッダーの指定を受け付けられない場合
+ */
+export type CredentialResolver = (
+  req: Request
+) => FirecrawlCredentials | undefined;
+
+export interface CredentialResolverOptions {
+  // クライアントごとのAPIキーを受け付けるか
+  multiTenant: boolean;
+  // ヘッダーで指定されなかった場合に使用するグローバルな認証情報
+  fallback?: FirecrawlCredentials;
+  // X-Firecrawl-Api-Url ヘッダーで指定できるAPI URL（公式のURLと fallback の URL は常に指定できる）
+  allowedApiUrls?: string[];
+}
+
+/**
+ * ヘッダーで指定された認証情報を受け付けられない場合のエラー
+ */
+export class CredentialError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CredentialError";
+  }
+}
+
+// 末尾のスラッシュや大文字・小文字の違いを区別せずに比較する
+function normalizeApiUrl(url: string): string | undefined {
+  try {
+    const parsed = new URL(url);
+    return `${parsed.origin}${parsed.pathname.replace(/\/+$/, "")}`;
+  } catch {
+    return undefined;
+  }
+}
+
+function readHeader(req: Request, name: string): string | undefined {
+  const value = req.get(name)?.trim();
+  return value ? value : undefined;
+}
+
+/**
+ * 認証情報の決定関数を作成する
+ * マルチテナントモードでは X-Firecrawl-Api-Key（と任意の X-Firecrawl-Api-Url）ヘッダーを優先し、
+ * 指定がなければグローバルな認証情報にフォールバックする
+ * X-Firecrawl-Api-Url は、APIキーを付けたリクエストを任意のホスト（内部のアドレスを含む）に
+ * 送らせないよう、allowedApiUrls と fallback の URL のみ受け付ける
+ */
+export function createCredentialResolver({
+  multiTenant,
+  fallback,
+  allowedApiUrls = [],
+}: CredentialResolverOptions): CredentialResolver {
+  const allowed = new Set(
+    [DEFAULT_API_URL, ...allowedApiUrls, fallback?.apiUrl]
+      .filter((url): url is string => url !== undefined)
+      .map(normalizeApiUrl)
+  );
+  return (req) => {
+    if (multiTenant) {
+      const apiKey = readHeader(req, API_KEY_HEADER);
+      const apiUrl = readHeader(req, API_URL_HEADER);
+      if (apiUrl !== undefined && !allowed.has(normalizeApiUrl(apiUrl))) {
+        throw new CredentialError(
+          `${API_URL_HEADER} "${apiUrl}" is not allowed (see FIRECRAWL_ALLOWED_API_URLS)`
+        );
+      }
+      if (apiKey) {
+        return { apiKey, apiUrl: apiUrl ?? fallback?.apiUrl };
+      }
+    }
+    return fallback;
+  };
+}
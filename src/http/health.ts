@@ -0,0 +1,165 @@
+import { Router, Request, Response } from "express";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import type { FirecrawlCredentials } from "../server.js";
+
+// Firecrawl SDKと同じデフォルトのAPI URL
+const DEFAULT_FIRECRAWL_API_URL = "https://api.firecrawl.dev";
+// バックエンド確認の結果を再利用する期間（readinessプローブのたびにAPIを呼ばないため）
+const BACKEND_PROBE_CACHE_MS = 10000;
+const BACKEND_PROBE_TIMEOUT_MS = 5000;
+
+/**
+ * 個々のreadinessチェックの結果
+ */
+export interface ReadinessCheckResult {
+  ok: boolean;
+  detail: string;
+}
+
+/**
+ * /readyz のレスポンス
+ */
+export interface ReadinessReport {
+  ready: boolean;
+  checks: { [name: string]: ReadinessCheckResult };
+}
+
+/**
+ * MCPサーバーに登録されたツール名を取得する
+ * インメモリのクライアントを接続して tools/list を呼び出す（Firecrawl APIは呼ばない）
+ * @param server ツール登録済みのMCPサーバー（確認後に閉じられる）
+ */
+export async function listRegisteredTools(
+  server: McpServer
+): Promise<string[]> {
+  const [clientTransport, serverTransport] =
+    InMemoryTransport.createLinkedPair();
+  const client = new Client({ name: "readiness-check", version: "1.0.0" });
+  try {
+    await server.connect(serverTransport);
+    await client.connect(clientTransport);
+    const { tools } = await client.listTools();
+    return tools.map((tool) => tool.name);
+  } finally {
+    await client.close();
+    await server.close();
+  }
+}
+
+/**
+ * サーバーがリクエストを受け付けられる状態かを判定する
+ * - ツールが登録されていること
+ * - Firecrawl APIに到達できること
+ * - シャットダウン中でないこと
+ */
+export class ReadinessChecker {
+  private toolsCheck: ReadinessCheckResult = {
+    ok: false,
+    detail: "tools not registered yet",
+  };
+  private shuttingDown = false;
+  private backendCache?: { result: ReadinessCheckResult; checkedAt: number };
+
+  /**
+   * @param credentials バックエンド確認に使う認証情報（マルチテナントでグローバルキーがない場合はURLのみ）
+   */
+  constructor(private readonly credentials: Partial<FirecrawlCredentials>) {}
+
+  markToolsRegistered(toolNames: string[]): void {
+    this.toolsCheck =
+      toolNames.length > 0
+        ? { ok: true, detail: `${toolNames.length} tools registered` }
+        : { ok: false, detail: "no tools registered" };
+  }
+
+  markToolsSkipped(detail: string): void {
+    this.toolsCheck = { ok: true, detail };
+  }
+
+  markToolsFailed(message: string): void {
+    this.toolsCheck = { ok: false, detail: message };
+  }
+
+  markShuttingDown(): void {
+    this.shuttingDown = true;
+  }
+
+  get isShuttingDown(): boolean {
+    return this.shuttingDown;
+  }
+
+  async check(): Promise<ReadinessReport> {
+    const checks: ReadinessReport["checks"] = {
+      shutdown: this.shuttingDown
+        ? { ok: false, detail: "shutting down" }
+        : { ok: true, detail: "running" },
+      tools: this.toolsCheck,
+      firecrawl: await this.checkBackend(),
+    };
+    return {
+      ready: Object.values(checks).every((result) => result.ok),
+      checks,
+    };
+  }
+
+  /**
+   * 残りクレジットのエンドポイントでFirecrawl APIへの到達性を確認する
+   * APIキーがない場合は認証エラー（4xx）でも到達可能とみなす
+   */
+  private async checkBackend(): Promise<ReadinessCheckResult> {
+    const now = Date.now();
+    if (
+      this.backendCache &&
+      now - this.backendCache.checkedAt < BACKEND_PROBE_CACHE_MS
+    ) {
+      return this.backendCache.result;
+    }
+
+    const apiUrl = this.credentials.apiUrl || DEFAULT_FIRECRAWL_API_URL;
+    let result: ReadinessCheckResult;
+    try {
+      const response = await fetch(`${apiUrl}/v1/team/credit-usage`, {
+        headers: this.credentials.apiKey
+          ? { Authorization: `Bearer ${this.credentials.apiKey}` }
+          : {},
+        signal: AbortSignal.timeout(BACKEND_PROBE_TIMEOUT_MS),
+      });
+      if (response.status >= 500) {
+        result = { ok: false, detail: `HTTP ${response.status}` };
+      } else if (response.status === 401 && this.credentials.apiKey) {
+        result = { ok: false, detail: "API key was rejected (HTTP 401)" };
+      } else {
+        result = { ok: true, detail: `reachable (HTTP ${response.status})` };
+      }
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : String(error);
+      result = { ok: false, detail: `unreachable: ${message}` };
+    }
+
+    this.backendCache = { result, checkedAt: now };
+    return result;
+  }
+}
+
+/**
+ * ヘルスチェック用のルーター
+ * - GET /healthz: プロセスが応答できれば常に200
+ * - GET /readyz: readinessチェックがすべて成功すれば200、そうでなければ503
+ * @param readiness readinessの判定
+ */
+export function createHealthRouter(readiness: ReadinessChecker): Router {
+  const router = Router();
+
+  router.get("/healthz", (_req: Request, res: Response) => {
+    res.json({ status: "ok", uptime: process.uptime() });
+  });
+
+  router.get("/readyz", async (_req: Request, res: Response) => {
+    const report = await readiness.check();
+    res.status(report.ready ? 200 : 503).json(report);
+  });
+
+  return router;
+}
@@ -0,0 +1,25 @@
+import { Router, Request, Response } from "express";
+import { metricsRegistry } from "../utils/metrics.js";
+import { logger } from "../utils/logger.js";
+
+/**
+ * Prometheus形式のメトリクスを公開するルーター (GET /metrics)
+ */
+export function createMetricsRouter(): Router {
+  const router = Router();
+
+  router.get("/metrics", async (_req: Request, res: Response) => {
+    try {
+      res.setHeader("Content-Type", metricsRegistry.contentType);
+      res.send(await metricsRegistry.metrics());
+    } catch (error: unknown) {
+      logger.error("Failed to collect metrics", { error });
+      res.status(500).json({
+        success: false,
+        error: { message: "Failed to collect metrics" },
+      });
+    }
+  });
+
+  return router;
+}
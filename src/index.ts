@@ -1,10 +1,22 @@
 #!/usr/bin/env node
 
-import express, { Request, Response } from "express";
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
 import dotenv from "dotenv";
-import { registerAllTools } from "./tools/index.js"; // Import tool registration function
+import { createMcpServer } from "./server.js";
+import { createHttpApp } from "./transports/http.js";
+import {
+  redirectConsoleToStderr,
+  startStdioServer,
+} from "./transports/stdio.js";
+import { readNumberEnv } from "./utils/env.js";
+import { loadAuthTokens, TokenAuthenticator } from "./http/auth.js";
+import { createCredentialResolver } from "./http/credentials.js";
+import { listRegisteredTools, ReadinessChecker } from "./http/health.js";
+import { inFlightToolCalls } from "./utils/inflight.js";
+import { registerGracefulShutdown } from "./utils/shutdown.js";
+import { logger } from "./utils/logger.js";
+import { waitForBatchQueue } from "./tools/scraping.js";
+import { getJobStore } from "./store/index.js";
+import { getResponseCache } from "./cache/index.js";
 // 環境変数の読み込み
 dotenv.config();
 
@@ -12,117 +24,166 @@ dotenv.config();
 const PORT = process.env.FIRECRAWL_PORT || 3006;
 const FIRECRAWL_API_URL = process.env.FIRECRAWL_API_URL;
 const FIRECRAWL_API_KEY = process.env.FIRECRAWL_API_KEY;
+// 同時接続セッション数の上限（0で無制限）
+const FIRECRAWL_MAX_SESSIONS = readNumberEnv("FIRECRAWL_MAX_SESSIONS", 100);
+// マルチテナントモード: セッションごとにヘッダーでFirecrawl APIキーを受け付ける
+const FIRECRAWL_MULTI_TENANT = process.env.FIRECRAWL_MULTI_TENANT === "true";
+// マルチテナントモードで X-Firecrawl-Api-Url ヘッダーに指定できるAPI URL（カンマ区切り）
+const FIRECRAWL_ALLOWED_API_URLS = (
+  process.env.FIRECRAWL_ALLOWED_API_URLS ?? ""
+)
+  .split(",")
+  .map((url) => url.trim())
+  .filter(Boolean);
+// シャットダウン時に実行中のツール呼び出し・バッチ処理を待つ上限（ミリ秒）
+const FIRECRAWL_SHUTDOWN_TIMEOUT = readNumberEnv(
+  "FIRECRAWL_SHUTDOWN_TIMEOUT",
+  25000
+);
+// トランスポート: "http" (SSE + Streamable HTTP) または "stdio"
+const FIRECRAWL_TRANSPORT = process.argv.includes("--stdio")
+  ? "stdio"
+  : process.env.FIRECRAWL_TRANSPORT || "http";
 
-// --- MCPサーバーの設定 ---
-const server = new McpServer({
-  name: "firecrawl-mcp",
-  version: "1.0.0",
-});
+// stdioモードでは標準出力をプロトコル専用にするため、ログ出力前に切り替える
+if (FIRECRAWL_TRANSPORT === "stdio") {
+  redirectConsoleToStderr();
+}
 
-// --- Expressアプリケーションの設定 ---
-const app = express();
+// --- サーバー起動 ---
+async function initializeServer() {
+  try {
+    if (FIRECRAWL_TRANSPORT !== "http" && FIRECRAWL_TRANSPORT !== "stdio") {
+      logger.error(
+        `Unknown FIRECRAWL_TRANSPORT "${FIRECRAWL_TRANSPORT}" (expected "http" or "stdio").`
+      );
+      process.exit(1);
+    }
 
-// セッション管理のためのマップ
-const transports: { [sessionId: string]: SSEServerTransport } = {};
+    // Check for required API key
+    // マルチテナントモード（HTTPのみ）ではグローバルなAPIキーは省略可能
+    const multiTenant =
+      FIRECRAWL_MULTI_TENANT && FIRECRAWL_TRANSPORT === "http";
+    if (!FIRECRAWL_API_KEY && !multiTenant) {
+      logger.error("FIRECRAWL_API_KEY environment variable is required.");
+      process.exit(1);
+    }
 
-// --- SSEエンドポイント (/sse) ---
-app.get("/sse", async (_req: Request, res: Response) => {
-  try {
-    const transport = new SSEServerTransport("/messages", res);
-    transports[transport.sessionId] = transport;
+    const globalCredentials = FIRECRAWL_API_KEY
+      ? { apiKey: FIRECRAWL_API_KEY, apiUrl: FIRECRAWL_API_URL }
+      : undefined;
 
-    console.log(`SSE接続確立: sessionId=${transport.sessionId}`);
+    // 設定が不正な場合に起動時点でエラーにするため、ジョブストアとキャッシュを先に作成する
+    const jobStore = getJobStore();
+    const responseCache = getResponseCache();
 
-    res.on("close", () => {
-      console.log(`SSE接続終了: sessionId=${transport.sessionId}`);
-      delete transports[transport.sessionId];
-    });
+    // 実行中のツール呼び出しとバッチキューの完了を待つ
+    const drain = [() => inFlightToolCalls.onIdle(), waitForBatchQueue];
 
-    await server.connect(transport);
-  } catch (error: unknown) {
-    const message = error instanceof Error ? error.message : String(error);
-    console.error("SSE接続確立エラー:", message);
-    if (error instanceof Error && error.stack) {
-      console.error("Stack trace:", error.stack);
-    }
-    // レスポンスがまだ送信されていない場合のみエラーレスポンスを送信
-    if (!res.headersSent) {
-      res.status(500).json({
-        success: false,
-        error: { message: "Failed to establish SSE connection" },
+    if (FIRECRAWL_TRANSPORT === "stdio" && globalCredentials) {
+      // stdioモードではExpressを起動せず、単一のサーバーを接続する
+      const server = createMcpServer(globalCredentials);
+      registerGracefulShutdown({
+        timeoutMs: FIRECRAWL_SHUTDOWN_TIMEOUT,
+        stopAccepting: () => {},
+        drain,
+        close: async () => {
+          await server.close();
+          await jobStore.flush();
+          await responseCache?.flush();
+        },
       });
+      await startStdioServer(server);
+      return;
     }
-  }
-});
-
-// --- メッセージ受信エンドポイント (/messages) ---
-app.post("/messages", async (req: Request, res: Response) => {
-  const sessionId = req.query.sessionId as string;
-  const transport = transports[sessionId];
 
-  if (transport) {
-    try {
-      await transport.handlePostMessage(req, res);
-    } catch (error: unknown) {
-      const message = error instanceof Error ? error.message : String(error);
-      console.error("メッセージ処理エラー:", message);
-      if (error instanceof Error && error.stack) {
-        console.error("Stack trace:", error.stack);
-      }
-      // レスポンスがまだ送信されていない場合のみエラーレスポンスを送信
-      if (!res.headersSent) {
-        res.status(500).json({
-          success: false,
-          error: { message: "Error processing message" },
-        });
-      }
+    if (multiTenant) {
+      logger.info("Multi-tenant mode enabled", {
+        globalApiKeyFallback: globalCredentials !== undefined,
+      });
     }
-  } else {
-    res.status(400).json({
-      success: false,
-      error: { message: "No transport found for sessionId" },
-    });
-  }
-});
 
-// --- サーバー起動 ---
-async function initializeServer() {
-  try {
-    // Check for required API key
-    if (!FIRECRAWL_API_KEY) {
-      console.error(
-        "Error: FIRECRAWL_API_KEY environment variable is required."
+    const authenticator = new TokenAuthenticator(loadAuthTokens());
+    if (!authenticator.enabled) {
+      logger.warn(
+        "FIRECRAWL_AUTH_TOKENS is not set. MCP endpoints are accessible without authentication."
       );
-      process.exit(1);
     }
 
-    // Register tools
-    console.log("Registering Firecrawl tools...");
-    registerAllTools(server, FIRECRAWL_API_KEY, FIRECRAWL_API_URL);
-    console.log("Firecrawl tools registered.");
+    const readiness = new ReadinessChecker(
+      globalCredentials ?? { apiUrl: FIRECRAWL_API_URL }
+    );
+    if (globalCredentials) {
+      // ツール登録を起動時に一度確認する（セッションのサーバーも同じ手順で生成される）
+      listRegisteredTools(createMcpServer(globalCredentials))
+        .then((toolNames) => readiness.markToolsRegistered(toolNames))
+        .catch((error: unknown) => {
+          logger.error("Tool registration check failed", { error });
+          readiness.markToolsFailed(
+            error instanceof Error ? error.message : String(error)
+          );
+        });
+    } else {
+      // グローバルキーがない場合はセッションごとのキーで登録されるため、起動時の確認は省略する
+      readiness.markToolsSkipped("registered per session (no global API key)");
+    }
 
     // Start the Express server
-    app.listen(PORT, () => {
-      console.log(`Firecrawl MCP Server running on http://localhost:${PORT}`);
-      console.log(`SSE endpoint: http://localhost:${PORT}/sse`);
-      console.log(`Message endpoint: http://localhost:${PORT}/messages`);
+    // HTTPモードではセッションごとにサーバーを生成する
+    const { app, getSessionCount, closeAllSessions } = createHttpApp(
+      createMcpServer,
+      {
+        maxSessions: FIRECRAWL_MAX_SESSIONS,
+        authenticator,
+        resolveCredentials: createCredentialResolver({
+          multiTenant,
+          fallback: globalCredentials,
+          allowedApiUrls: [
+            ...FIRECRAWL_ALLOWED_API_URLS,
+            ...(FIRECRAWL_API_URL ? [FIRECRAWL_API_URL] : []),
+          ],
+        }),
+        readiness,
+      }
+    );
+    const httpServer = app.listen(PORT, () => {
+      logger.info(`Firecrawl MCP Server running on http://localhost:${PORT}`, {
+        sse: "/sse",
+        messages: "/messages",
+        streamableHttp: "/mcp",
+        health: ["/healthz", "/readyz"],
+        metrics: "/metrics",
+      });
+    });
+
+    registerGracefulShutdown({
+      timeoutMs: FIRECRAWL_SHUTDOWN_TIMEOUT,
+      stopAccepting: () => {
+        // 新しいセッションを拒否し、/readyz を503にする
+        readiness.markShuttingDown();
+        logger.info("Waiting for in-flight tool calls", {
+          inFlightToolCalls: inFlightToolCalls.count,
+          openSessions: getSessionCount(),
+        });
+      },
+      drain,
+      close: async () => {
+        await closeAllSessions();
+        // SSEなどの長時間接続が残っていても待たずに終了する
+        httpServer.closeAllConnections();
+        await new Promise<void>((resolve) => httpServer.close(() => resolve()));
+        await jobStore.flush();
+        await responseCache?.flush();
+      },
     });
   } catch (error) {
-    const message = error instanceof Error ? error.message : String(error);
-    console.error(`Server initialization error: ${message}`);
-    if (error instanceof Error && error.stack) {
-      console.error(`Stack trace: ${error.stack}`);
-    }
+    logger.error("Server initialization error", { error });
     process.exit(1);
   }
 }
 
 // サーバー初期化と起動
 initializeServer().catch((error) => {
-  const message = error instanceof Error ? error.message : String(error);
-  console.error(`Unexpected error during server startup: ${message}`);
-  if (error instanceof Error && error.stack) {
-    console.error(`Stack trace: ${error.stack}`);
-  }
+  logger.error("Unexpected error during server startup", { error });
   process.exit(1);
 });
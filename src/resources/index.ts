@@ -0,0 +1,439 @@
+import {
+  McpServer,
+  ResourceTemplate,
+} from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { Variables } from "@modelcontextprotocol/sdk/shared/uriTemplate.js";
+import {
+  ErrorCode,
+  McpError,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  type ReadResourceResult,
+  type Resource,
+} from "@modelcontextprotocol/sdk/types.js";
+import FirecrawlApp, { type FirecrawlDocument } from "@mendable/firecrawl-js";
+import { getTenantId } from "../utils/tenant.js";
+import { type CreditMonitor, getCreditMonitor } from "../utils/credits.js";
+import { readNumberEnv } from "../utils/env.js";
+import { logger } from "../utils/logger.js";
+import { withRetry } from "../utils/retry.js";
+import {
+  fetchCrawlDocument,
+  listCrawlJobs,
+  updateCrawlJob,
+} from "../tools/crawling.js";
+import { listCompletedBatches, loadCompletedBatch } from "../tools/scraping.js";
+import {
+  batchDocumentUri,
+  crawlDocumentUri,
+  crawlJobUri,
+  getCrawlDocumentSummary,
+  getScrapedDocuments,
+  onResourceEvent,
+  scrapeDocumentUri,
+  summarizeDocument,
+  type DocumentSummary,
+} from "./registry.js";
+
+// 一覧に表示するクロールジョブ1件あたりの文書数の上限（それ以降の文書もURIを指定すれば読める）
+const MAX_LISTED_CRAWL_DOCUMENTS = 1000;
+
+// 終了したクロールジョブのステータス（購読していても確認しない）
+const FINISHED_CRAWL_STATUSES = new Set(["completed", "failed", "cancelled"]);
+
+function variable(variables: Variables, name: string): string {
+  const value = variables[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+function parseIndex(uri: URL, value: string): number {
+  const index = Number(value);
+  if (!Number.isInteger(index) || index < 0) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Invalid document index: ${uri}`
+    );
+  }
+  return index;
+}
+
+function notFound(uri: URL): McpError {
+  return new McpError(ErrorCode.InvalidParams, `Resource not found: ${uri}`);
+}
+
+/**
+ * 文書をリソースの一覧の1件にする（タイトル・取得元URLは文書のメタデータから取る）
+ */
+function documentResource(
+  uri: string,
+  fallbackName: string,
+  summary: DocumentSummary | undefined
+): Resource {
+  return {
+    uri,
+    name: summary?.sourceURL ?? fallbackName,
+    ...(summary?.title ? { title: summary.title } : {}),
+    ...(summary?.sourceURL ? { description: summary.sourceURL } : {}),
+    mimeType: "text/markdown",
+    ...(summary ? { _meta: { ...summary } } : {}),
+  };
+}
+
+/**
+ * 文書の本文をリソースの内容にする（markdown がなければ HTML、どちらもなければ JSON）
+ */
+function documentContents(
+  uri: URL,
+  doc: Omit<FirecrawlDocument<unknown>, "actions">
+): ReadResourceResult {
+  const _meta = { ...summarizeDocument(doc) };
+  if (doc.markdown) {
+    return {
+      contents: [
+        { uri: uri.href, mimeType: "text/markdown", text: doc.markdown, _meta },
+      ],
+    };
+  }
+  if (doc.html) {
+    return {
+      contents: [
+        { uri: uri.href, mimeType: "text/html", text: doc.html, _meta },
+      ],
+    };
+  }
+  return {
+    contents: [
+      {
+        uri: uri.href,
+        mimeType: "application/json",
+        text: JSON.stringify(doc, null, 2),
+        _meta,
+      },
+    ],
+  };
+}
+
+/**
+ * スクレイピング・クロール・バッチの結果をMCPリソースとして登録する
+ * - firecrawl://scrape/{id}: firecrawl_scrape で取得した文書（プロセス内に保持）
+ * - firecrawl://crawl/{jobId}: クロールジョブのステータス（購読するとページが増えるたびに resources/updated を送る）
+ * - firecrawl://crawl/{jobId}/{index}: クロールした文書（読み込み時にFirecrawlから取得する）
+ * - firecrawl://batch/{operationId}/{index}: バッチスクレイピングの文書
+ * @param server MCPサーバーインスタンス
+ * @param apiKey Firecrawl API Key
+ * @param apiUrl Firecrawl API URL（オプション）
+ */
+export function registerAllResources(
+  server: McpServer,
+  apiKey: string,
+  apiUrl?: string
+): void {
+  const client = new FirecrawlApp({
+    apiKey,
+    ...(apiUrl ? { apiUrl } : {}),
+  });
+  const creditMonitor = getCreditMonitor(apiKey, apiUrl);
+  const tenantId = getTenantId(apiKey, apiUrl);
+
+  // --- firecrawl://scrape/{id} ---
+  server.registerResource(
+    "scrape-document",
+    new ResourceTemplate("firecrawl://scrape/{id}", {
+      list: () => ({
+        resources: getScrapedDocuments()
+          .list(tenantId)
+          .map((document) =>
+            documentResource(
+              scrapeDocumentUri(document.id),
+              document.url,
+              summarizeDocument(document.doc)
+            )
+          ),
+      }),
+    }),
+    {
+      title: "Scraped page",
+      description: "A page scraped with firecrawl_scrape",
+      mimeType: "text/markdown",
+    },
+    (uri, variables) => {
+      const document = getScrapedDocuments().get(
+        tenantId,
+        variable(variables, "id")
+      );
+      if (!document) {
+        throw notFound(uri);
+      }
+      return documentContents(uri, document.doc);
+    }
+  );
+
+  // --- firecrawl://crawl/{jobId} ---
+  server.registerResource(
+    "crawl-job",
+    new ResourceTemplate("firecrawl://crawl/{jobId}", {
+      list: () => ({
+        resources: listCrawlJobs(tenantId).map((job) => ({
+          uri: crawlJobUri(job.id),
+          name: `crawl-${job.id}`,
+          title: `Crawl of ${job.url}`,
+          description: `${job.status ?? "unknown"}, ${job.completed ?? 0}/${job.total ?? "?"} pages`,
+          mimeType: "application/json",
+        })),
+      }),
+    }),
+    {
+      title: "Crawl job",
+      description:
+        "Status of a crawl job and the URIs of its documents. Subscribe to be notified when the crawl gains pages",
+      mimeType: "application/json",
+    },
+    async (uri, variables, extra) => {
+      const jobId = variable(variables, "jobId");
+      const { result: status } = await withRetry(
+        "check crawl status",
+        () => client.checkCrawlStatus(jobId),
+        { signal: extra.signal }
+      );
+      if (!status.success) {
+        throw new McpError(ErrorCode.InvalidParams, status.error);
+      }
+      creditMonitor.recordUsage(status.creditsUsed, jobId);
+      updateCrawlJob(tenantId, status, jobId);
+
+      const documents = Array.from({ length: status.completed }, (_, index) =>
+        crawlDocumentUri(jobId, index)
+      );
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: "application/json",
+            text: JSON.stringify(
+              {
+                id: jobId,
+                status: status.status,
+                completed: status.completed,
+                total: status.total,
+                creditsUsed: status.creditsUsed,
+                expiresAt: status.expiresAt,
+                documents,
+              },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    }
+  );
+
+  // --- firecrawl://crawl/{jobId}/{index} ---
+  server.registerResource(
+    "crawl-document",
+    new ResourceTemplate("firecrawl://crawl/{jobId}/{index}", {
+      list: () => ({
+        resources: listCrawlJobs(tenantId).flatMap((job) =>
+          Array.from(
+            {
+              length: Math.min(job.completed ?? 0, MAX_LISTED_CRAWL_DOCUMENTS),
+            },
+            (_, index) =>
+              documentResource(
+                crawlDocumentUri(job.id, index),
+                `crawl-${job.id}-${index}`,
+                getCrawlDocumentSummary(job.id, index)
+              )
+          )
+        ),
+      }),
+    }),
+    {
+      title: "Crawled page",
+      description: "A page crawled with firecrawl_crawl, by index",
+      mimeType: "text/markdown",
+    },
+    async (uri, variables, extra) => {
+      const jobId = variable(variables, "jobId");
+      const index = parseIndex(uri, variable(variables, "index"));
+      const doc = await fetchCrawlDocument(client, jobId, index, extra.signal);
+      if (!doc) {
+        throw notFound(uri);
+      }
+      return documentContents(uri, doc);
+    }
+  );
+
+  // --- firecrawl://batch/{operationId}/{index} ---
+  server.registerResource(
+    "batch-document",
+    new ResourceTemplate("firecrawl://batch/{operationId}/{index}", {
+      list: () => ({
+        resources: listCompletedBatches(tenantId).flatMap((operation) =>
+          Array.from({ length: operation.resultCount }, (_, index) => {
+            const doc = operation.documents?.[index];
+            return documentResource(
+              batchDocumentUri(operation.id, index),
+              `batch-${operation.id}-${index}`,
+              doc ? summarizeDocument(doc) : undefined
+            );
+          })
+        ),
+      }),
+    }),
+    {
+      title: "Batch-scraped page",
+      description: "A page from a completed firecrawl_batch_scrape job",
+      mimeType: "text/markdown",
+    },
+    async (uri, variables, extra) => {
+      const index = parseIndex(uri, variable(variables, "index"));
+      const documents = await loadCompletedBatch(
+        tenantId,
+        variable(variables, "operationId"),
+        client,
+        extra.signal
+      );
+      const doc = documents?.[index];
+      if (!doc) {
+        throw notFound(uri);
+      }
+      return documentContents(uri, doc);
+    }
+  );
+
+  registerResourceSubscriptions(server, client, tenantId, creditMonitor);
+}
+
+/**
+ * リソースの購読を受け付け、変更をクライアントに通知する
+ * 購読中のクロールジョブは、終了するまで FIRECRAWL_RESOURCE_POLL_INTERVAL（ミリ秒、デフォルト: 10000）ごとに確認する
+ */
+function registerResourceSubscriptions(
+  server: McpServer,
+  client: FirecrawlApp,
+  tenantId: string,
+  creditMonitor: CreditMonitor
+): void {
+  const subscriptions = new Set<string>();
+  // クロールジョブごとに最後に確認したステータス（ページが増えたかの判定に使う）
+  const lastSeen = new Map<string, { status: string; completed: number }>();
+  let pollTimer: NodeJS.Timeout | undefined;
+  let polling = false;
+
+  server.server.registerCapabilities({
+    resources: { subscribe: true, listChanged: true },
+  });
+
+  const notifyUpdated = (uri: string) => {
+    server.server.sendResourceUpdated({ uri }).catch((error: unknown) => {
+      logger.debug("Failed to send resource update", { uri, error });
+    });
+  };
+
+  // 購読中のクロールジョブのうち、終了していないもの
+  const watchedCrawlJobs = () =>
+    [...subscriptions].flatMap((uri) => {
+      const match = uri.match(/^firecrawl:\/\/crawl\/([^/]+)$/);
+      const status = match ? lastSeen.get(match[1])?.status : undefined;
+      return match && !FINISHED_CRAWL_STATUSES.has(status ?? "")
+        ? [match[1]]
+        : [];
+    });
+
+  const pollCrawlJobs = async () => {
+    if (polling) {
+      return;
+    }
+    polling = true;
+    try {
+      for (const jobId of watchedCrawlJobs()) {
+        try {
+          const { result: status } = await withRetry("check crawl status", () =>
+            client.checkCrawlStatus(jobId)
+          );
+          if (!status.success) {
+            throw new Error(status.error);
+          }
+          creditMonitor.recordUsage(status.creditsUsed, jobId);
+          // 進捗はイベント経由で購読中のセッションに通知される
+          updateCrawlJob(tenantId, status, jobId);
+        } catch (error) {
+          // 次の確認で再試行する
+          logger.debug("Failed to check subscribed crawl job", {
+            crawlId: jobId,
+            error,
+          });
+        }
+      }
+    } finally {
+      polling = false;
+    }
+  };
+
+  const updatePolling = () => {
+    if (watchedCrawlJobs().length > 0 && !pollTimer) {
+      pollTimer = setInterval(
+        () => void pollCrawlJobs(),
+        readNumberEnv("FIRECRAWL_RESOURCE_POLL_INTERVAL", 10000)
+      );
+      pollTimer.unref();
+    } else if (watchedCrawlJobs().length === 0 && pollTimer) {
+      clearInterval(pollTimer);
+      pollTimer = undefined;
+    }
+  };
+
+  server.server.setRequestHandler(SubscribeRequestSchema, (request) => {
+    subscriptions.add(request.params.uri);
+    updatePolling();
+    return {};
+  });
+  server.server.setRequestHandler(UnsubscribeRequestSchema, (request) => {
+    subscriptions.delete(request.params.uri);
+    updatePolling();
+    return {};
+  });
+
+  const unsubscribe = onResourceEvent((event) => {
+    if (event.tenantId !== tenantId) {
+      return;
+    }
+    if (event.type === "listChanged") {
+      server.sendResourceListChanged();
+      if (event.uri && subscriptions.has(event.uri)) {
+        notifyUpdated(event.uri);
+      }
+      return;
+    }
+
+    const previous = lastSeen.get(event.jobId);
+    lastSeen.set(event.jobId, {
+      status: event.status,
+      completed: event.completed,
+    });
+    const gainedPages = event.completed > (previous?.completed ?? 0);
+    if (gainedPages) {
+      // 新しいページが firecrawl://crawl/{jobId}/{index} として読めるようになった
+      server.sendResourceListChanged();
+    }
+    const uri = crawlJobUri(event.jobId);
+    if (
+      subscriptions.has(uri) &&
+      (gainedPages || event.status !== previous?.status)
+    ) {
+      notifyUpdated(uri);
+    }
+    if (FINISHED_CRAWL_STATUSES.has(event.status)) {
+      updatePolling();
+    }
+  });
+
+  // セッションが閉じたら購読と確認をやめる
+  const previousOnClose = server.server.onclose;
+  server.server.onclose = () => {
+    unsubscribe();
+    clearInterval(pollTimer);
+    previousOnClose?.();
+  };
+}
@@ -0,0 +1,224 @@
+import { createHash } from "node:crypto";
+import type { ActionsResult, FirecrawlDocument } from "@mendable/firecrawl-js";
+import { readNumberEnv } from "../utils/env.js";
+import { logger } from "../utils/logger.js";
+
+// リソースURIのスキーム
+export const RESOURCE_SCHEME = "firecrawl";
+
+export const scrapeDocumentUri = (id: string) =>
+  `${RESOURCE_SCHEME}://scrape/${id}`;
+export const crawlJobUri = (jobId: string) =>
+  `${RESOURCE_SCHEME}://crawl/${jobId}`;
+export const crawlDocumentUri = (jobId: string, index: number) =>
+  `${RESOURCE_SCHEME}://crawl/${jobId}/${index}`;
+export const batchDocumentUri = (operationId: string, index: number) =>
+  `${RESOURCE_SCHEME}://batch/${operationId}/${index}`;
+
+// メタデータを覚えておくクロールジョブ数の上限
+const MAX_CRAWL_METADATA_JOBS = 100;
+
+/**
+ * リソースの一覧に表示する文書のメタデータ（FirecrawlDocument.metadata から取得する）
+ */
+export interface DocumentSummary {
+  title?: string;
+  sourceURL?: string;
+  statusCode?: number;
+}
+
+/**
+ * firecrawl_scrape で取得した文書
+ */
+export interface ScrapedDocument {
+  id: string;
+  // 取得したFirecrawlアカウント（マルチテナント時に他アカウントから参照させない）
+  tenantId: string;
+  url: string;
+  // スクリーンショット・加工前のHTML・actions の結果は大きいため保持しない
+  doc: Omit<FirecrawlDocument<unknown>, "screenshot" | "rawHtml" | "actions">;
+  scrapedAt: string; // ISO 8601
+}
+
+/**
+ * リソースの変更を各セッションに伝えるイベント
+ */
+export type ResourceEvent =
+  // 一覧に文書が追加・更新された（既存の文書を置き換えた場合は uri を指定する）
+  | { type: "listChanged"; tenantId: string; uri?: string }
+  // クロールジョブのステータスを確認した（ページが増えていない場合も含む）
+  | {
+      type: "crawlProgress";
+      tenantId: string;
+      jobId: string;
+      status: string;
+      completed: number;
+    };
+
+type ResourceListener = (event: ResourceEvent) => void;
+
+const listeners = new Set<ResourceListener>();
+
+/**
+ * リソースの変更を購読する（セッション終了時に返り値の関数で解除する）
+ */
+export function onResourceEvent(listener: ResourceListener): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+/**
+ * リソースの変更を購読中のセッションに伝える
+ */
+export function emitResourceEvent(event: ResourceEvent): void {
+  for (const listener of listeners) {
+    try {
+      listener(event);
+    } catch (error) {
+      // 1つのセッションの失敗で他のセッションやツール呼び出しを止めない
+      logger.warn("Resource event listener failed", { error });
+    }
+  }
+}
+
+/**
+ * 文書のメタデータのうち、リソースの一覧に表示する項目を取り出す
+ */
+export function summarizeDocument(
+  doc: Pick<FirecrawlDocument<unknown>, "url" | "metadata">
+): DocumentSummary {
+  return {
+    title: doc.metadata?.title,
+    sourceURL: doc.metadata?.sourceURL || doc.url,
+    statusCode: doc.metadata?.statusCode,
+  };
+}
+
+/**
+ * firecrawl_scrape の文書をプロセス内で保持する（再起動で失われる）
+ * 同じURLを取得し直した場合は置き換え、上限を超えた場合は最も古く取得したものから削除する
+ */
+class ScrapedDocumentStore {
+  private readonly documents = new Map<string, ScrapedDocument>();
+
+  constructor(private readonly maxDocuments: number) {}
+
+  /**
+   * 文書を保存し、保存した内容を返す
+   */
+  put(
+    tenantId: string,
+    url: string,
+    doc: FirecrawlDocument<unknown, ActionsResult>
+  ): ScrapedDocument {
+    const id = scrapeDocumentId(tenantId, url);
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { screenshot, rawHtml, actions, ...rest } = doc;
+    const document: ScrapedDocument = {
+      id,
+      tenantId,
+      url,
+      doc: rest,
+      scrapedAt: new Date().toISOString(),
+    };
+    this.documents.delete(id);
+    this.documents.set(id, document);
+    for (const key of this.documents.keys()) {
+      if (this.documents.size <= this.maxDocuments) {
+        break;
+      }
+      this.documents.delete(key);
+    }
+    return document;
+  }
+
+  get(tenantId: string, id: string): ScrapedDocument | undefined {
+    const document = this.documents.get(id);
+    return document?.tenantId === tenantId ? document : undefined;
+  }
+
+  list(tenantId: string): ScrapedDocument[] {
+    return [...this.documents.values()].filter(
+      (document) => document.tenantId === tenantId
+    );
+  }
+}
+
+let scrapedDocuments: ScrapedDocumentStore | undefined;
+
+/**
+ * プロセス共通の firecrawl_scrape の文書の保存先を取得する
+ * 保持する件数は FIRECRAWL_RESOURCE_MAX_DOCUMENTS（デフォルト: 100）
+ */
+export function getScrapedDocuments(): ScrapedDocumentStore {
+  if (!scrapedDocuments) {
+    scrapedDocuments = new ScrapedDocumentStore(
+      readNumberEnv("FIRECRAWL_RESOURCE_MAX_DOCUMENTS", 100)
+    );
+  }
+  return scrapedDocuments;
+}
+
+/**
+ * firecrawl_scrape の文書のID（Firecrawlアカウントと、末尾のスラッシュをそろえたURLから決まる）
+ */
+export function scrapeDocumentId(tenantId: string, url: string): string {
+  return createHash("sha256")
+    .update(`${tenantId}\n${url.replace(/\/+$/, "")}`)
+    .digest("hex")
+    .slice(0, 16);
+}
+
+/**
+ * firecrawl_scrape で取得した文書をリソースとして公開する
+ */
+export function registerScrapedDocument(
+  tenantId: string,
+  url: string,
+  doc: FirecrawlDocument<unknown, ActionsResult>
+): void {
+  const { id } = getScrapedDocuments().put(tenantId, url, doc);
+  emitResourceEvent({
+    type: "listChanged",
+    tenantId,
+    uri: scrapeDocumentUri(id),
+  });
+}
+
+// クロールジョブIDごとの、取得済みの文書のメタデータ（通し番号 -> メタデータ）
+const crawlMetadata = new Map<string, Map<number, DocumentSummary>>();
+
+/**
+ * クロール結果を取得した際に、文書のメタデータを一覧表示用に覚えておく
+ * 本文はFirecrawl側に保存されているため、読み込み時に取得し直す
+ * @param jobId クロールジョブID
+ * @param index 文書の通し番号
+ */
+export function rememberCrawlDocument(
+  jobId: string,
+  index: number,
+  doc: FirecrawlDocument<undefined>
+): void {
+  let documents = crawlMetadata.get(jobId);
+  if (!documents) {
+    documents = new Map();
+    crawlMetadata.set(jobId, documents);
+    for (const key of crawlMetadata.keys()) {
+      if (crawlMetadata.size <= MAX_CRAWL_METADATA_JOBS) {
+        break;
+      }
+      crawlMetadata.delete(key);
+    }
+  }
+  documents.set(index, summarizeDocument(doc));
+}
+
+/**
+ * 覚えておいたクロール結果の文書のメタデータを取得する
+ */
+export function getCrawlDocumentSummary(
+  jobId: string,
+  index: number
+): DocumentSummary | undefined {
+  return crawlMetadata.get(jobId)?.get(index);
+}
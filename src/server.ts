@@ -0,0 +1,50 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { registerAllTools } from "./tools/index.js";
+import { registerAllResources } from "./resources/index.js";
+import { getCreditMonitor } from "./utils/credits.js";
+
+/**
+ * セッションで使用するFirecrawlの認証情報
+ */
+export interface FirecrawlCredentials {
+  apiKey: string;
+  apiUrl?: string;
+}
+
+/**
+ * MCPサーバーを生成するファクトリ
+ * セッションごとに独立したプロトコル状態を持たせるため、接続ごとに呼び出す
+ */
+export type McpServerFactory = (credentials: FirecrawlCredentials) => McpServer;
+
+/**
+ * 全ツール・リソースを登録したMCPサーバーを生成する
+ * @param credentials セッションで使用するFirecrawlの認証情報
+ */
+export function createMcpServer({
+  apiKey,
+  apiUrl,
+}: FirecrawlCredentials): McpServer {
+  const server = new McpServer(
+    {
+      name: "firecrawl-mcp",
+      version: "1.0.0",
+    },
+    {
+      // 長時間のツール（deep research など）の進捗をログメッセージとしても送るため
+      capabilities: { logging: {} },
+    }
+  );
+  // セッションが閉じるまで、このアカウントの残りクレジットを監視する
+  // （マルチテナントモードでキーごとのタイマーが残り続けないよう、最後のセッションの終了時に止める）
+  const releaseCreditMonitor = getCreditMonitor(apiKey, apiUrl).retain();
+  const previousOnClose = server.server.onclose;
+  server.server.onclose = () => {
+    releaseCreditMonitor();
+    previousOnClose?.();
+  };
+
+  registerAllTools(server, apiKey, apiUrl);
+  registerAllResources(server, apiKey, apiUrl);
+  return server;
+}
@@ -0,0 +1,135 @@
+import { existsSync, readFileSync, renameSync } from "node:fs";
+import { mkdir, rename, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import type { JobRecord } from "./index.js";
+import { MemoryJobStore } from "./memory.js";
+import { logger } from "../utils/logger.js";
+
+// 連続した更新をまとめて書き込むための待ち時間
+const SAVE_DEBOUNCE_MS = 200;
+
+interface StoreFileContent {
+  collections: { [name: string]: JobRecord[] };
+  sequences: { [name: string]: number };
+}
+
+/**
+ * JSONファイルに永続化するジョブストア
+ * 読み込みは起動時に一度だけ行い、以降はメモリ上の内容を変更のたびに（まとめて）書き出す
+ */
+export class FileJobStore extends MemoryJobStore {
+  private saveTimer?: NodeJS.Timeout;
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(private readonly path: string) {
+    super();
+    this.load();
+  }
+
+  private load(): void {
+    if (!existsSync(this.path)) {
+      return;
+    }
+    try {
+      const content = JSON.parse(
+        readFileSync(this.path, "utf8")
+      ) as StoreFileContent;
+      for (const [name, records] of Object.entries(content.collections ?? {})) {
+        this.collections.set(
+          name,
+          new Map(records.map((record) => [record.id, record]))
+        );
+      }
+      for (const [name, value] of Object.entries(content.sequences ?? {})) {
+        this.sequences.set(name, value);
+      }
+    } catch (error) {
+      // 壊れたファイル（書き込み途中での停止など）で起動できなくならないよう、空の状態から始める
+      // 元のファイルは調査・復旧できるよう、上書きせずに別名で残す
+      this.collections.clear();
+      this.sequences.clear();
+      const backupPath = `${this.path}.corrupt-${Date.now()}`;
+      try {
+        renameSync(this.path, backupPath);
+      } catch (renameError) {
+        logger.warn("Failed to move aside corrupt job store file", {
+          path: this.path,
+          error: renameError,
+        });
+      }
+      logger.warn("Failed to load job store, starting empty", {
+        path: this.path,
+        backupPath,
+        error,
+      });
+    }
+  }
+
+  put<T extends JobRecord>(collection: string, record: T): void {
+    super.put(collection, record);
+    this.scheduleSave();
+  }
+
+  delete(collection: string, id: string): void {
+    super.delete(collection, id);
+    this.scheduleSave();
+  }
+
+  nextSequence(collection: string): number {
+    const next = super.nextSequence(collection);
+    this.scheduleSave();
+    return next;
+  }
+
+  purgeExpired(ttlMs: number): number {
+    const purged = super.purgeExpired(ttlMs);
+    if (purged > 0) {
+      this.scheduleSave();
+    }
+    return purged;
+  }
+
+  async flush(): Promise<void> {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = undefined;
+      this.save();
+    }
+    await this.saving;
+  }
+
+  private scheduleSave(): void {
+    if (this.saveTimer) {
+      return;
+    }
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = undefined;
+      this.save();
+    }, SAVE_DEBOUNCE_MS);
+  }
+
+  // 書き込み途中で停止しても壊れたファイルが残らないよう、一時ファイルから置き換える
+  private save(): void {
+    const content: StoreFileContent = {
+      collections: Object.fromEntries(
+        [...this.collections].map(([name, records]) => [
+          name,
+          [...records.values()],
+        ])
+      ),
+      sequences: Object.fromEntries(this.sequences),
+    };
+    const data = JSON.stringify(content);
+    const tempPath = `${this.path}.tmp`;
+
+    this.saving = this.saving
+      .then(async () => {
+        await mkdir(dirname(this.path), { recursive: true });
+        await writeFile(tempPath, data, "utf8");
+        await rename(tempPath, this.path);
+      })
+      .catch((error: unknown) => {
+        logger.error("Failed to save job store", { path: this.path, error });
+      });
+  }
+}
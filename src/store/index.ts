@@ -0,0 +1,96 @@
+import { readNumberEnv } from "../utils/env.js";
+import { logger } from "../utils/logger.js";
+import { FileJobStore } from "./file.js";
+import { MemoryJobStore } from "./memory.js";
+
+/**
+ * ジョブストアに保存するレコードの共通項目
+ */
+export interface JobRecord {
+  id: string;
+  // 作成したFirecrawlアカウント（マルチテナント時に他アカウントから参照させない）
+  tenantId: string;
+  createdAt: string; // ISO 8601
+  updatedAt: string; // ISO 8601（TTLの判定に使用）
+}
+
+/**
+ * バッチ操作・クロールジョブを保存するストア
+ * レコードは collection（"batch", "crawl" など）ごとにIDで管理する
+ * 取得したレコードを変更した場合は、put() で保存し直す
+ */
+export interface JobStore {
+  get<T extends JobRecord>(collection: string, id: string): T | undefined;
+  put<T extends JobRecord>(collection: string, record: T): void;
+  delete(collection: string, id: string): void;
+  list<T extends JobRecord>(collection: string): T[];
+  // 再起動後も重複しない連番を発行する
+  nextSequence(collection: string): number;
+  // updatedAt が ttlMs より古いレコードを削除し、削除件数を返す
+  purgeExpired(ttlMs: number): number;
+  // 未保存の変更を書き出す
+  flush(): Promise<void>;
+}
+
+// 期限切れレコードを確認する間隔の上限
+const MAX_PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * 環境変数に従ってジョブストアを作成する
+ * - FIRECRAWL_JOB_STORE: memory（デフォルト）または file
+ * - FIRECRAWL_JOB_STORE_PATH: file の保存先（デフォルト: ./data/jobs.json）
+ */
+export function createJobStore(): JobStore {
+  const type = process.env.FIRECRAWL_JOB_STORE || "memory";
+  switch (type) {
+    case "memory":
+      return new MemoryJobStore();
+    case "file":
+      return new FileJobStore(
+        process.env.FIRECRAWL_JOB_STORE_PATH || "./data/jobs.json"
+      );
+    default:
+      throw new Error(
+        `Unknown FIRECRAWL_JOB_STORE "${type}" (expected "memory" or "file")`
+      );
+  }
+}
+
+let jobStore: JobStore | undefined;
+
+// 期限切れレコードを削除した後に呼ぶ関数（レコードに紐づくメモリ上のデータを解放するため）
+const purgeListeners = new Set<() => void>();
+
+/**
+ * 期限切れレコードが削除されたときに呼ばれる関数を登録する
+ */
+export function onJobsPurged(listener: () => void): void {
+  purgeListeners.add(listener);
+}
+
+/**
+ * プロセス共通のジョブストアを取得する（初回呼び出し時に作成し、期限切れレコードの削除を開始する）
+ * TTLは FIRECRAWL_JOB_TTL（ミリ秒、デフォルト: 24時間、0で無期限）
+ */
+export function getJobStore(): JobStore {
+  if (!jobStore) {
+    const store = createJobStore();
+    const ttl = readNumberEnv("FIRECRAWL_JOB_TTL", 24 * 60 * 60 * 1000);
+    // 0 の場合は期限切れによる削除を行わない
+    if (ttl > 0) {
+      const purge = () => {
+        const purged = store.purgeExpired(ttl);
+        if (purged > 0) {
+          logger.info("Purged expired jobs", { purged });
+          for (const listener of purgeListeners) {
+            listener();
+          }
+        }
+      };
+      purge();
+      setInterval(purge, Math.min(ttl, MAX_PURGE_INTERVAL_MS)).unref();
+    }
+    jobStore = store;
+  }
+  return jobStore;
+}
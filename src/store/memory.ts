@@ -0,0 +1,56 @@
+import type { JobRecord, JobStore } from "./index.js";
+
+/**
+ * プロセス内のみで保持するジョブストア（再起動で失われる）
+ */
+export class MemoryJobStore implements JobStore {
+  protected collections = new Map<string, Map<string, JobRecord>>();
+  protected sequences = new Map<string, number>();
+
+  private collection(name: string): Map<string, JobRecord> {
+    let records = this.collections.get(name);
+    if (!records) {
+      records = new Map();
+      this.collections.set(name, records);
+    }
+    return records;
+  }
+
+  get<T extends JobRecord>(collection: string, id: string): T | undefined {
+    return this.collection(collection).get(id) as T | undefined;
+  }
+
+  put<T extends JobRecord>(collection: string, record: T): void {
+    this.collection(collection).set(record.id, record);
+  }
+
+  delete(collection: string, id: string): void {
+    this.collection(collection).delete(id);
+  }
+
+  list<T extends JobRecord>(collection: string): T[] {
+    return [...this.collection(collection).values()] as T[];
+  }
+
+  nextSequence(collection: string): number {
+    const next = (this.sequences.get(collection) ?? 0) + 1;
+    this.sequences.set(collection, next);
+    return next;
+  }
+
+  purgeExpired(ttlMs: number): number {
+    const threshold = Date.now() - ttlMs;
+    let purged = 0;
+    for (const records of this.collections.values()) {
+      for (const [id, record] of records) {
+        if (Date.parse(record.updatedAt) < threshold) {
+          records.delete(id);
+          purged++;
+        }
+      }
+    }
+    return purged;
+  }
+
+  async flush(): Promise<void> {}
+}
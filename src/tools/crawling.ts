@@ -1,10 +1,387 @@
+import { randomUUID } from "node:crypto";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import FirecrawlApp, {
   type MapParams,
   type CrawlParams,
+  type CrawlStatusResponse,
   type FirecrawlDocument,
 } from "@mendable/firecrawl-js";
 import { z } from "zod";
+import { withRetry, appendAttemptInfo, sleep } from "../utils/retry.js";
+import { CREDIT_OVERRIDE_SCHEMA, getCreditMonitor } from "../utils/credits.js";
+import { getTenantId } from "../utils/tenant.js";
+import { logger } from "../utils/logger.js";
+import { readNumberEnv } from "../utils/env.js";
+import {
+  createProgressReporter,
+  type ProgressReporter,
+} from "../utils/progress.js";
+import { getJobStore, type JobRecord } from "../store/index.js";
+import { CACHE_BYPASS_SCHEMA, CACHE_MAX_AGE_SCHEMA } from "../cache/index.js";
+import {
+  DEFAULT_MAX_CHARACTERS,
+  DOCUMENT_FORMATS_SCHEMA,
+  MAX_CHARACTERS_SCHEMA,
+  decodeContinuationToken,
+  encodeContinuationToken,
+  formatDocument,
+  formatDocumentPage,
+  type DocumentFormat,
+} from "../utils/documents.js";
+import {
+  emitResourceEvent,
+  rememberCrawlDocument,
+} from "../resources/registry.js";
+
+const CRAWL_COLLECTION = "crawl";
+
+// ジョブストアに保存するクロールジョブの情報（IDはFirecrawlのクロールジョブID）
+export interface CrawlJobRecord extends JobRecord {
+  url: string;
+  status?: string; // 最後に確認したFirecrawl上のステータス
+  completed?: number;
+  total?: number;
+  creditsUsed?: number;
+}
+
+/**
+ * このサーバーから開始したクロールジョブを取得する（他のアカウントのものは返さない）
+ */
+export function listCrawlJobs(tenantId: string): CrawlJobRecord[] {
+  return getJobStore()
+    .list<CrawlJobRecord>(CRAWL_COLLECTION)
+    .filter((job) => job.tenantId === tenantId);
+}
+
+/**
+ * 確認したステータスをジョブストアのクロールジョブに反映する
+ * リソースを購読中のセッションにも進捗を伝える
+ */
+export function updateCrawlJob(
+  tenantId: string,
+  response: CrawlStatusResponse,
+  id: string
+): void {
+  const store = getJobStore();
+  const job = store.get<CrawlJobRecord>(CRAWL_COLLECTION, id);
+  if (job && job.tenantId === tenantId) {
+    store.put<CrawlJobRecord>(CRAWL_COLLECTION, {
+      ...job,
+      status: response.status,
+      completed: response.completed,
+      total: response.total,
+      creditsUsed: response.creditsUsed,
+      updatedAt: new Date().toISOString(),
+    });
+  }
+  emitResourceEvent({
+    type: "crawlProgress",
+    tenantId,
+    jobId: id,
+    status: response.status,
+    completed: response.completed,
+  });
+}
+
+// wait: true の場合に完了を待つ時間（ミリ秒）のデフォルトと上限
+// デフォルトは多くのMCPクライアントのリクエストタイムアウト（60秒）より短くする
+const DEFAULT_CRAWL_MAX_WAIT_MS = 55000;
+const MAX_CRAWL_MAX_WAIT_MS = 600000;
+
+/**
+ * クロールジョブが終了するか期限に達するまでステータスを確認し、進捗を通知する（確認のたびにジョブストアにも反映する）
+ * 間隔は FIRECRAWL_CRAWL_POLL_INTERVAL（ミリ秒、デフォルト: 2000）
+ * @returns 最後に確認したステータス（期限に達した場合は status が "scraping" のまま）
+ * @throws signal が中断された場合は signal.reason
+ */
+async function waitForCrawl(
+  client: FirecrawlApp,
+  tenantId: string,
+  id: string,
+  maxWaitMs: number,
+  reportProgress: ProgressReporter,
+  signal?: AbortSignal
+): Promise<CrawlStatusResponse> {
+  const interval = readNumberEnv("FIRECRAWL_CRAWL_POLL_INTERVAL", 2000);
+  const deadline = Date.now() + maxWaitMs;
+
+  for (;;) {
+    const { result: response } = await withRetry(
+      "check crawl status",
+      () => client.checkCrawlStatus(id),
+      { signal }
+    );
+    if (!response.success) {
+      throw new Error(response.error);
+    }
+    updateCrawlJob(tenantId, response, id);
+    await reportProgress(
+      response.completed,
+      response.total || undefined,
+      `Crawled ${response.completed}/${response.total} pages`
+    );
+
+    const remaining = deadline - Date.now();
+    if (response.status !== "scraping" || remaining <= 0) {
+      return response;
+    }
+    await sleep(Math.min(interval, remaining), signal);
+  }
+}
+
+/**
+ * キャンセルされたツール呼び出しが開始したクロールを中止する（失敗した場合はログに残すだけ）
+ */
+async function cancelAbandonedCrawl(
+  client: FirecrawlApp,
+  id: string
+): Promise<void> {
+  try {
+    const response = await client.cancelCrawl(id);
+    if ("error" in response && response.error) {
+      throw new Error(response.error);
+    }
+    logger.info("Cancelled crawl started by a cancelled tool call", {
+      crawlId: id,
+    });
+  } catch (error) {
+    logger.warn("Failed to cancel crawl started by a cancelled tool call", {
+      crawlId: id,
+      error,
+    });
+  }
+}
+
+// firecrawl_get_crawl_results で1回に返す文書数のデフォルト
+const DEFAULT_CRAWL_RESULTS_LIMIT = 10;
+
+// firecrawl_get_crawl_results の続きの取得位置
+const CRAWL_RESULTS_CURSOR_SCHEMA = z.object({
+  id: z.string(),
+  // 次に返す文書の通し番号
+  offset: z.number().int().min(0),
+  // その文書を含むFirecrawlのページの先頭の通し番号（skipとして渡す）
+  skip: z.number().int().min(0),
+});
+type CrawlResultsCursor = z.infer<typeof CRAWL_RESULTS_CURSOR_SCHEMA>;
+
+// 取得したクロール結果の文書（通し番号と、含まれていたページの位置を保持する）
+interface CrawlDocumentEntry {
+  index: number;
+  skip: number;
+  doc: FirecrawlDocument<undefined>;
+}
+
+// 末尾のスラッシュの有無は同じURLとして扱う
+function normalizeUrl(url: string): string {
+  return url.replace(/\/+$/, "");
+}
+
+function documentUrls(doc: FirecrawlDocument<undefined>): string[] {
+  return [doc.metadata?.sourceURL, doc.url]
+    .filter((url): url is string => typeof url === "string")
+    .map(normalizeUrl);
+}
+
+/**
+ * クロール結果をFirecrawlのページ（next）をたどりながら取得する
+ * 返す文書数・文字数上限を超えた時点、または指定URLがすべて見つかった時点で取得をやめる
+ */
+async function collectCrawlDocuments(
+  client: FirecrawlApp,
+  id: string,
+  {
+    cursor,
+    limit,
+    formats,
+    maxCharacters,
+    urls,
+    signal,
+  }: {
+    cursor: CrawlResultsCursor;
+    limit: number;
+    formats: DocumentFormat[];
+    maxCharacters: number;
+    urls?: Set<string>;
+    signal?: AbortSignal;
+  }
+) {
+  const entries: CrawlDocumentEntry[] = [];
+  const found = new Set<string>();
+  let pageStart = cursor.skip;
+  let nextUrl: string | undefined;
+  let characters = 0;
+
+  for (;;) {
+    const skip = pageStart > 0 ? pageStart : undefined;
+    const url = nextUrl;
+    const { result: response } = await withRetry(
+      "fetch crawl results",
+      () =>
+        url
+          ? client.checkCrawlStatus(id, false, url)
+          : client.checkCrawlStatus(id, false, undefined, skip),
+      { signal }
+    );
+    if (!response.success) {
+      throw new Error(response.error);
+    }
+
+    response.data.forEach((doc, position) => {
+      const index = pageStart + position;
+      rememberCrawlDocument(id, index, doc);
+      if (index < cursor.offset) {
+        return;
+      }
+      if (urls) {
+        const matched = documentUrls(doc).filter((docUrl) => urls.has(docUrl));
+        if (matched.length === 0) {
+          return;
+        }
+        matched.forEach((docUrl) => found.add(docUrl));
+      }
+      entries.push({ index, skip: pageStart, doc });
+      characters += formatDocument(doc, index, formats).length;
+    });
+    pageStart += response.data.length;
+    nextUrl = response.data.length > 0 ? response.next : undefined;
+
+    const allFound = urls !== undefined && found.size >= urls.size;
+    if (
+      !nextUrl ||
+      allFound ||
+      entries.length > limit ||
+      characters > maxCharacters
+    ) {
+      return {
+        status: response,
+        entries,
+        // 指定URLがすべて見つかった場合は残りのページを読む必要がない
+        hasMorePages: nextUrl !== undefined && !allFound,
+        scanned: pageStart,
+        missing: urls ? [...urls].filter((docUrl) => !found.has(docUrl)) : [],
+      };
+    }
+  }
+}
+
+/**
+ * クロール結果の文書を通し番号で1件取得する（範囲外の場合はundefined）
+ */
+export async function fetchCrawlDocument(
+  client: FirecrawlApp,
+  id: string,
+  index: number,
+  signal?: AbortSignal
+): Promise<FirecrawlDocument<undefined> | undefined> {
+  const { result: response } = await withRetry(
+    "fetch crawl results",
+    () => client.checkCrawlStatus(id, false, undefined, index, 1),
+    { signal }
+  );
+  if (!response.success) {
+    throw new Error(response.error);
+  }
+  const doc = response.data[0];
+  if (doc) {
+    rememberCrawlDocument(id, index, doc);
+  }
+  return doc;
+}
+
+/**
+ * クロール結果を1ページ分のテキストにする（続きがある場合は cursor を案内する）
+ * @throws offset が結果の範囲外の場合
+ */
+async function readCrawlResults(
+  client: FirecrawlApp,
+  id: string,
+  {
+    cursor: start,
+    limit,
+    urls,
+    formats,
+    maxCharacters,
+    signal,
+  }: {
+    cursor: CrawlResultsCursor;
+    limit?: number;
+    urls?: string[];
+    formats?: DocumentFormat[];
+    maxCharacters?: number;
+    signal?: AbortSignal;
+  }
+): Promise<string> {
+  const pageLimit = limit ?? DEFAULT_CRAWL_RESULTS_LIMIT;
+  const selectedFormats: DocumentFormat[] = formats?.length
+    ? formats
+    : ["markdown"];
+  const budget = maxCharacters ?? DEFAULT_MAX_CHARACTERS;
+  const { status, entries, hasMorePages, scanned, missing } =
+    await collectCrawlDocuments(client, id, {
+      cursor: start,
+      limit: pageLimit,
+      formats: selectedFormats,
+      maxCharacters: budget,
+      urls: urls?.length ? new Set(urls.map(normalizeUrl)) : undefined,
+      signal,
+    });
+
+  if (
+    entries.length === 0 &&
+    !urls?.length &&
+    start.offset > 0 &&
+    status.status !== "scraping"
+  ) {
+    throw new Error(
+      `offset ${start.offset} is out of range (${status.completed} documents).`
+    );
+  }
+
+  const shown = entries.slice(0, pageLimit);
+  const page = formatDocumentPage(
+    shown.map((entry) => entry.doc),
+    {
+      offset: 0,
+      formats: selectedFormats,
+      maxCharacters: budget,
+      indexes: shown.map((entry) => entry.index),
+    }
+  );
+  // 文字数上限か limit のどちらかで止まった文書から次のページを始める
+  const nextEntry =
+    page.nextOffset !== undefined ? shown[page.nextOffset] : entries[pageLimit];
+  const next: CrawlResultsCursor | undefined = nextEntry
+    ? { id, offset: nextEntry.index, skip: nextEntry.skip }
+    : hasMorePages || status.status === "scraping"
+      ? { id, offset: scanned, skip: scanned }
+      : undefined;
+
+  const progress = `${status.status}, ${status.completed}/${status.total} pages`;
+  const header =
+    page.count > 0
+      ? `Crawl ${id} (${progress}): documents ${shown[0].index}-${shown[page.count - 1].index}`
+      : `Crawl ${id} (${progress}): no documents`;
+  const notes: string[] = [];
+  if (missing.length > 0 && !hasMorePages) {
+    notes.push(`Not found in crawl results: ${missing.join(", ")}`);
+  }
+  if (next && (nextEntry || hasMorePages)) {
+    notes.push(
+      `More documents available. Call again with cursor: ${encodeContinuationToken(next)}`
+    );
+  } else if (next) {
+    notes.push(
+      `End of results so far. The crawl is still running; call again later with cursor: ${encodeContinuationToken(next)}`
+    );
+  } else {
+    notes.push("End of results.");
+  }
+
+  return [header, page.text, ...notes]
+    .filter((part) => part !== "")
+    .join("\n\n");
+}
 
 /**
  * クロール関連ツールを登録する
@@ -22,6 +399,8 @@ export function registerCrawlingTools(
     apiKey,
     ...(apiUrl ? { apiUrl } : {}),
   });
+  const creditMonitor = getCreditMonitor(apiKey, apiUrl);
+  const tenantId = getTenantId(apiKey, apiUrl);
 
   // --- firecrawl_map ---
   const MAP_TOOL_SCHEMA = {
@@ -43,19 +422,26 @@ export function registerCrawlingTools(
       .optional()
       .describe("Include URLs from subdomains in results"),
     limit: z.number().optional().describe("Maximum number of URLs to return"),
+    maxAge: CACHE_MAX_AGE_SCHEMA,
+    bypassCache: CACHE_BYPASS_SCHEMA,
   };
 
   server.tool(
     "firecrawl_map",
     "Discover URLs from a starting point. Can use both sitemap.xml and HTML link discovery.",
     MAP_TOOL_SCHEMA,
-    async (args) => {
+    async (args, extra) => {
       const { url, ...options } = args;
       try {
-        const response = await client.mapUrl(url, {
-          ...options,
-          // origin: "mcp-server", // Remove origin if not supported
-        } as MapParams); // Cast options
+        const { result: response, attempts } = await withRetry(
+          "map URL",
+          () =>
+            client.mapUrl(url, {
+              ...options,
+              // origin: "mcp-server", // Remove origin if not supported
+            } as MapParams), // Cast options
+          { signal: extra.signal }
+        );
 
         if ("error" in response) {
           throw new Error(response.error);
@@ -65,7 +451,12 @@ export function registerCrawlingTools(
         }
 
         return {
-          content: [{ type: "text", text: response.links.join("\n") }],
+          content: [
+            {
+              type: "text",
+              text: appendAttemptInfo(response.links.join("\n"), attempts),
+            },
+          ],
           isError: false,
         };
       } catch (error) {
@@ -153,36 +544,132 @@ export function registerCrawlingTools(
       })
       .optional()
       .describe("Options for scraping each page"),
+    wait: z
+      .boolean()
+      .optional()
+      .describe(
+        "Wait for the crawl to finish and return the crawled documents instead of a job ID. Progress is reported via progress notifications"
+      ),
+    maxWaitMs: z
+      .number()
+      .int()
+      .positive()
+      .max(MAX_CRAWL_MAX_WAIT_MS)
+      .optional()
+      .describe(
+        `Maximum time to wait in milliseconds when wait is true (default: ${DEFAULT_CRAWL_MAX_WAIT_MS}). If the crawl is still running, the job ID is returned instead`
+      ),
+    ignoreCreditLimit: CREDIT_OVERRIDE_SCHEMA,
   };
 
   server.tool(
     "firecrawl_crawl",
-    "Start an asynchronous crawl of multiple pages from a starting URL. Supports depth control, path filtering, and webhook notifications.",
+    "Start an asynchronous crawl of multiple pages from a starting URL. Supports depth control, path filtering, and webhook notifications. Set wait: true to wait for completion and get the documents directly.",
     CRAWL_TOOL_SCHEMA,
-    async (args) => {
-      const { url, ...options } = args;
+    async (args, extra) => {
+      const { url, wait, maxWaitMs, ...options } = args;
+      // 完了を待つ間にキャンセルされた場合は、開始したクロールも中止する
+      let runningCrawlId: string | undefined;
+      // 応答が失われて再試行した場合に、クロールを二重に開始しない（クレジットを二重に消費しない）
+      const idempotencyKey = randomUUID();
       try {
-        const response = await client.asyncCrawlUrl(url, {
-          ...options,
-          // origin: "mcp-server", // Remove origin if not supported
-        } as CrawlParams); // Cast options
+        const { result: response, attempts } = await withRetry(
+          "start crawl",
+          () =>
+            client.asyncCrawlUrl(
+              url,
+              {
+                ...options,
+                // origin: "mcp-server", // Remove origin if not supported
+              } as CrawlParams, // Cast options
+              idempotencyKey
+            ),
+          { signal: extra.signal }
+        );
 
         if (!response.success) {
           throw new Error(response.error);
         }
+        if (!response.id) {
+          throw new Error("Firecrawl did not return a crawl job ID");
+        }
+        const crawlId = response.id;
 
-        // Monitor credits if needed (similar logic as in mendableai/firecrawl-mcp-server)
+        // クロール開始時点ではクレジットは確定しないため、使用量はステータス確認時に記録する
 
+        const now = new Date().toISOString();
+        getJobStore().put<CrawlJobRecord>(CRAWL_COLLECTION, {
+          id: crawlId,
+          tenantId,
+          url,
+          createdAt: now,
+          updatedAt: now,
+        });
+
+        const started = `Started crawl for ${url} with job ID: ${crawlId}`;
+        if (!wait) {
+          return {
+            content: [
+              { type: "text", text: appendAttemptInfo(started, attempts) },
+            ],
+            isError: false,
+          };
+        }
+
+        const waitMs = maxWaitMs ?? DEFAULT_CRAWL_MAX_WAIT_MS;
+        runningCrawlId = crawlId;
+        const status = await waitForCrawl(
+          client,
+          tenantId,
+          crawlId,
+          waitMs,
+          createProgressReporter(extra),
+          extra.signal
+        );
+        runningCrawlId = undefined;
+        creditMonitor.recordUsage(status.creditsUsed, crawlId);
+
+        if (status.status === "scraping") {
+          // 期限までに終わらなかった場合はジョブIDを返し、後から確認してもらう
+          return {
+            content: [
+              {
+                type: "text",
+                text: appendAttemptInfo(
+                  `${started}\nThe crawl is still running after waiting ${waitMs / 1000}s (${status.completed}/${status.total} pages). Use firecrawl_check_crawl_status or firecrawl_get_crawl_results with this job ID to follow up.`,
+                  attempts
+                ),
+              },
+            ],
+            isError: false,
+          };
+        }
+        if (status.status !== "completed") {
+          throw new Error(
+            `Crawl ${crawlId} for ${url} ended with status: ${status.status} (${status.completed}/${status.total} pages)`
+          );
+        }
+
+        const results = await readCrawlResults(client, crawlId, {
+          cursor: { id: crawlId, offset: 0, skip: 0 },
+          signal: extra.signal,
+        });
         return {
           content: [
             {
               type: "text",
-              text: `Started crawl for ${url} with job ID: ${response.id}`,
+              text: appendAttemptInfo(
+                `Crawl completed for ${url} (job ID: ${crawlId}, credits used: ${status.creditsUsed ?? "N/A"})\n\n${results}`,
+                attempts
+              ),
             },
           ],
           isError: false,
         };
       } catch (error) {
+        if (extra.signal.aborted && runningCrawlId) {
+          await cancelAbandonedCrawl(client, runningCrawlId);
+        }
         const errorMessage =
           error instanceof Error ? error.message : String(error);
         return {
@@ -198,39 +685,35 @@ export function registerCrawlingTools(
     id: z.string().describe("Crawl job ID to check"),
   };
 
-  // Helper function to format results (from mendableai/firecrawl-mcp-server)
-  function formatResults(data: FirecrawlDocument[]): string {
-    return data
-      .map((doc) => {
-        const content = doc.markdown || doc.html || doc.rawHtml || "No content";
-        return `URL: ${doc.url || "Unknown URL"}
-Content: ${content.substring(0, 100)}${content.length > 100 ? "..." : ""}
-${doc.metadata?.title ? `Title: ${doc.metadata.title}` : ""}`;
-      })
-      .join("\n\n");
-  }
-
   server.tool(
     "firecrawl_check_crawl_status",
     "Check the status of a crawl job.",
     CHECK_CRAWL_STATUS_TOOL_SCHEMA,
-    async ({ id }) => {
+    async ({ id }, extra) => {
       try {
-        const response = await client.checkCrawlStatus(id);
+        const { result: response, attempts } = await withRetry(
+          "check crawl status",
+          () => client.checkCrawlStatus(id),
+          { signal: extra.signal }
+        );
 
         if (!response.success) {
           throw new Error(response.error);
         }
 
+        creditMonitor.recordUsage(response.creditsUsed, id);
+        updateCrawlJob(tenantId, response, id);
+
         const status = `Crawl Status:
 Status: ${response.status}
 Progress: ${response.completed}/${response.total}
 Credits Used: ${response.creditsUsed ?? "N/A"}
-Expires At: ${response.expiresAt ?? "N/A"}
-${response.data && response.data.length > 0 ? "\nResults:\n" + formatResults(response.data) : ""}`;
+Expires At: ${response.expiresAt ?? "N/A"}${response.completed > 0 ? "\n\nResults: use firecrawl_get_crawl_results to read the crawled pages" : ""}`;
 
         return {
-          content: [{ type: "text", text: status }],
+          content: [
+            { type: "text", text: appendAttemptInfo(status, attempts) },
+          ],
           isError: false, // Consider adding error check based on response.status if needed
         };
       } catch (error) {
@@ -243,4 +726,147 @@ ${response.data && response.data.length > 0 ? "\nResults:\n" + formatResults(res
       }
     }
   );
+
+  // --- firecrawl_get_crawl_results ---
+  const GET_CRAWL_RESULTS_TOOL_SCHEMA = {
+    id: z.string().describe("Crawl job ID returned by firecrawl_crawl"),
+    offset: z
+      .number()
+      .int()
+      .min(0)
+      .optional()
+      .describe(
+        "Index of the first document to return (default: 0). Ignored when cursor is given"
+      ),
+    limit: z
+      .number()
+      .int()
+      .positive()
+      .optional()
+      .describe(
+        `Maximum number of documents to return (default: ${DEFAULT_CRAWL_RESULTS_LIMIT})`
+      ),
+    urls: z
+      .array(z.string())
+      .optional()
+      .describe("Only return the documents for these URLs"),
+    cursor: z
+      .string()
+      .optional()
+      .describe(
+        "Continuation token from a previous call, to read the next page of results"
+      ),
+    formats: DOCUMENT_FORMATS_SCHEMA,
+    maxCharacters: MAX_CHARACTERS_SCHEMA,
+  };
+
+  server.tool(
+    "firecrawl_get_crawl_results",
+    "Retrieve the full content of crawled pages, page by page. Select pages by index (offset/limit) or by URL, and pass the returned cursor to continue.",
+    GET_CRAWL_RESULTS_TOOL_SCHEMA,
+    async (
+      { id, offset = 0, limit, urls, cursor, formats, maxCharacters },
+      extra
+    ) => {
+      try {
+        // offset より前の文書は読み飛ばさず、Firecrawlの skip で取得を始める
+        let start: CrawlResultsCursor = { id, offset, skip: offset };
+        if (cursor) {
+          const parsed = CRAWL_RESULTS_CURSOR_SCHEMA.safeParse(
+            decodeContinuationToken(cursor)
+          );
+          if (!parsed.success || parsed.data.id !== id) {
+            throw new Error(`Invalid continuation token for crawl ${id}`);
+          }
+          start = parsed.data;
+        }
+
+        const text = await readCrawlResults(client, id, {
+          cursor: start,
+          limit,
+          urls,
+          formats,
+          maxCharacters,
+          signal: extra.signal,
+        });
+        return {
+          content: [{ type: "text", text }],
+          isError: false,
+        };
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error ? error.message : String(error);
+        return {
+          content: [{ type: "text", text: `Error: ${errorMessage}` }],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  // --- firecrawl_cancel_crawl ---
+  const CANCEL_CRAWL_TOOL_SCHEMA = {
+    id: z.string().describe("Crawl job ID returned by firecrawl_crawl"),
+  };
+
+  server.tool(
+    "firecrawl_cancel_crawl",
+    "Cancel a running crawl job. Reports the pages and credits used before cancellation.",
+    CANCEL_CRAWL_TOOL_SCHEMA,
+    async ({ id }, extra) => {
+      try {
+        const { result: response } = await withRetry(
+          "cancel crawl",
+          () => client.cancelCrawl(id),
+          { signal: extra.signal }
+        );
+        if ("error" in response && response.error) {
+          throw new Error(response.error);
+        }
+
+        const lines = [`Cancelled crawl ${id}.`];
+        // キャンセル時点の進捗と使用クレジットを反映する
+        try {
+          const { result: status } = await withRetry(
+            "check crawl status",
+            () => client.checkCrawlStatus(id),
+            { signal: extra.signal }
+          );
+          if (!status.success) {
+            throw new Error(status.error);
+          }
+          creditMonitor.recordUsage(status.creditsUsed, id);
+          updateCrawlJob(tenantId, status, id);
+          lines.push(
+            `Pages crawled before cancellation: ${status.completed}/${status.total}`,
+            `Credits used: ${status.creditsUsed ?? "N/A"}`
+          );
+          if (status.completed > 0) {
+            lines.push(
+              "Pages crawled so far can still be read with firecrawl_get_crawl_results."
+            );
+          }
+        } catch (error) {
+          logger.warn("Failed to fetch status of cancelled crawl", {
+            crawlId: id,
+            error,
+          });
+          lines.push("Pages and credits used: unavailable");
+        }
+        logger.info("Cancelled crawl", { crawlId: id });
+
+        return {
+          content: [{ type: "text", text: lines.join("\n") }],
+          isError: false,
+        };
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error ? error.message : String(error);
+        return {
+          content: [{ type: "text", text: `Error: ${errorMessage}` }],
+          isError: true,
+        };
+      }
+    }
+  );
 }
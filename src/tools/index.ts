@@ -2,6 +2,17 @@ import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { registerScrapingTools } from "./scraping.js";
 import { registerCrawlingTools } from "./crawling.js";
 import { registerSearchTools } from "./search.js";
+import { registerOutputTools } from "./output.js";
+import { withToolMiddleware } from "./middleware.js";
+import { creditMiddleware, getCreditMonitor } from "../utils/credits.js";
+import { inFlightMiddleware, inFlightToolCalls } from "../utils/inflight.js";
+import { metricsMiddleware } from "../utils/metrics.js";
+import { logger, loggingMiddleware } from "../utils/logger.js";
+import { responseCacheMiddleware } from "../cache/index.js";
+import { getTenantId } from "../utils/tenant.js";
+import { urlPolicyMiddleware } from "../utils/urlpolicy.js";
+import { getRateLimiter, rateLimitMiddleware } from "../utils/ratelimit.js";
+import { outputBudgetMiddleware } from "../utils/output.js";
 
 /**
  * Firecrawlの全ツールをMCPサーバーに登録する
@@ -14,16 +25,34 @@ export function registerAllTools(
   apiKey: string,
   apiUrl?: string
 ): void {
-  console.log("Registering Firecrawl tools...");
+  logger.debug("Registering Firecrawl tools...");
+
+  // 全ツール共通のミドルウェアを適用
+  const toolServer = withToolMiddleware(server, [
+    inFlightMiddleware(inFlightToolCalls),
+    loggingMiddleware(),
+    metricsMiddleware(),
+    urlPolicyMiddleware(),
+    creditMiddleware(getCreditMonitor(apiKey, apiUrl)),
+    // キャッシュには全文を保存し、返すときに切り詰める
+    outputBudgetMiddleware(getTenantId(apiKey, apiUrl)),
+    // クレジットの警告をキャッシュに含めないよう、ハンドラーの近くに置く
+    responseCacheMiddleware(getTenantId(apiKey, apiUrl)),
+    // キャッシュから返す呼び出しはFirecrawlを呼ばないため、レート制限の対象にしない
+    rateLimitMiddleware(getRateLimiter()),
+  ]);
 
   // スクレイピング関連ツールの登録
-  registerScrapingTools(server, apiKey, apiUrl);
+  registerScrapingTools(toolServer, apiKey, apiUrl);
 
   // クロール関連ツールの登録
-  registerCrawlingTools(server, apiKey, apiUrl);
+  registerCrawlingTools(toolServer, apiKey, apiUrl);
 
   // 検索・抽出関連ツールの登録
-  registerSearchTools(server, apiKey, apiUrl);
+  registerSearchTools(toolServer, apiKey, apiUrl);
+
+  // 切り詰めた結果の続きを取得するツールの登録
+  registerOutputTools(toolServer, apiKey, apiUrl);
 
-  console.log("All Firecrawl tools registered successfully.");
+  logger.debug("All Firecrawl tools registered successfully.");
 }
@@ -0,0 +1,118 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { randomUUID } from "node:crypto";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import type {
+  CallToolResult,
+  ServerNotification,
+  ServerRequest,
+} from "@modelcontextprotocol/sdk/types.js";
+
+/**
+ * ツールハンドラーが受け取るリクエスト情報（signal, sessionId など）
+ * signal はクライアントがリクエストをキャンセルした場合と、セッションが閉じた場合に中断される
+ */
+export type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+/**
+ * ツール呼び出しごとのコンテキスト
+ */
+export interface ToolCallContext {
+  toolName: string;
+  // ログの相関用にツール呼び出しごとに発行するID
+  callId: string;
+  // 呼び出し開始時刻（Date.now()）
+  startedAt: number;
+  args: Record<string, unknown>;
+  extra: ToolExtra;
+}
+
+/**
+ * ツールハンドラーの前後に処理を差し込むミドルウェア
+ * next() を呼ぶと後続のミドルウェア（最後はハンドラー本体）が実行される
+ */
+export type ToolMiddleware = (
+  context: ToolCallContext,
+  next: () => Promise<CallToolResult>
+) => Promise<CallToolResult>;
+
+// 実行中のツール呼び出し（リトライやクレジット記録など、ハンドラーの内側からツール名を参照するため）
+const toolCallStorage = new AsyncLocalStorage<ToolCallContext>();
+
+/**
+ * 現在実行中のツール呼び出しのコンテキストを取得する（ツール呼び出しの外側ではundefined）
+ */
+export function getCurrentToolCall(): ToolCallContext | undefined {
+  return toolCallStorage.getStore();
+}
+
+/**
+ * ツール呼び出しのコンテキストの外で fn を実行する
+ * 呼び出しの終了後も続くバックグラウンド処理のログ・メトリクスを、開始した呼び出しのものとして記録しないため
+ */
+export function runOutsideToolCall<T>(fn: () => T): T {
+  return toolCallStorage.exit(fn);
+}
+
+type AnyToolHandler = (...handlerArgs: unknown[]) => Promise<CallToolResult>;
+
+/**
+ * server.tool() で登録されるすべてのハンドラーにミドルウェアを適用したサーバーを返す
+ * 返り値は元のサーバーをプロトタイプに持つため、tool() 以外はそのまま元のサーバーに委譲される
+ * @param server MCPサーバーインスタンス
+ * @param middlewares 適用するミドルウェア（配列の先頭が最も外側）
+ */
+export function withToolMiddleware(
+  server: McpServer,
+  middlewares: ToolMiddleware[]
+): McpServer {
+  const wrapped = Object.create(server) as McpServer;
+
+  // SDKは接続が閉じても実行中のハンドラーの signal を中断しないため、セッション終了を別途伝える
+  const sessionClosed = new AbortController();
+  const previousOnClose = server.server.onclose;
+  server.server.onclose = () => {
+    sessionClosed.abort(new Error("Session closed"));
+    previousOnClose?.();
+  };
+
+  wrapped.tool = ((name: string, ...rest: unknown[]) => {
+    const handler = rest.pop() as AnyToolHandler;
+
+    // スキーマ付きツールは (args, extra)、引数なしツールは (extra) で呼ばれる
+    const wrappedHandler: AnyToolHandler = (...handlerArgs) => {
+      const requestExtra = handlerArgs[handlerArgs.length - 1] as ToolExtra;
+      const extra: ToolExtra = {
+        ...requestExtra,
+        signal: AbortSignal.any([requestExtra.signal, sessionClosed.signal]),
+      };
+      handlerArgs[handlerArgs.length - 1] = extra;
+      const args =
+        handlerArgs.length > 1
+          ? (handlerArgs[0] as Record<string, unknown>)
+          : {};
+      const context: ToolCallContext = {
+        toolName: name,
+        callId: randomUUID().slice(0, 8),
+        startedAt: Date.now(),
+        args,
+        extra,
+      };
+
+      const dispatch = (index: number): Promise<CallToolResult> =>
+        index < middlewares.length
+          ? middlewares[index](context, () => dispatch(index + 1))
+          : handler(...handlerArgs);
+
+      return toolCallStorage.run(context, () => dispatch(0));
+    };
+
+    return (server.tool as (...toolArgs: unknown[]) => unknown).apply(server, [
+      name,
+      ...rest,
+      wrappedHandler,
+    ]);
+  }) as McpServer["tool"];
+
+  return wrapped;
+}
@@ -0,0 +1,98 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { getTenantId } from "../utils/tenant.js";
+import {
+  continuationNotice,
+  getOutputBudgetConfig,
+  getOutputStore,
+  READ_MORE_TOOL_NAME,
+  sliceEnd,
+} from "../utils/output.js";
+
+/**
+ * 切り詰めたツール結果の続きを取得するツールをMCPサーバーに登録する
+ * @param server MCPサーバーインスタンス
+ * @param apiKey Firecrawl API Key
+ * @param apiUrl Firecrawl API URL（オプション）
+ */
+export function registerOutputTools(
+  server: McpServer,
+  apiKey: string,
+  apiUrl?: string
+): void {
+  const tenantId = getTenantId(apiKey, apiUrl);
+
+  // --- firecrawl_read_more ---
+  const READ_MORE_TOOL_SCHEMA = {
+    token: z
+      .string()
+      .describe("Continuation token from a truncated tool result"),
+    offset: z
+      .number()
+      .int()
+      .min(0)
+      .optional()
+      .describe(
+        "Character offset to start reading from (use the offset given in the truncation notice)"
+      ),
+    maxCharacters: z
+      .number()
+      .int()
+      .positive()
+      .optional()
+      .describe(
+        "Maximum number of characters to return (capped by the server's output budget)"
+      ),
+  };
+
+  server.tool(
+    READ_MORE_TOOL_NAME,
+    "Read more of a tool result that was truncated to fit the output budget. Pass the continuation token and offset from the truncation notice.",
+    READ_MORE_TOOL_SCHEMA,
+    async ({ token, offset = 0, maxCharacters }) => {
+      const output = getOutputStore().get(token, tenantId);
+      if (!output) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error: No stored output found for token "${token}" (it may have expired). Call the original tool again.`,
+            },
+          ],
+          isError: true,
+        };
+      }
+      if (offset >= output.text.length) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error: Offset ${offset} is past the end of the output (${output.text.length} characters)`,
+            },
+          ],
+          isError: true,
+        };
+      }
+
+      const { maxChars } = getOutputBudgetConfig();
+      const limit =
+        maxChars > 0
+          ? Math.min(maxCharacters ?? maxChars, maxChars)
+          : (maxCharacters ?? output.text.length);
+      const end = sliceEnd(output.text, offset, limit);
+      return {
+        content: [
+          { type: "text", text: output.text.slice(offset, end) },
+          {
+            type: "text",
+            text:
+              end < output.text.length
+                ? continuationNotice(token, offset, end, output.text.length)
+                : `End of output from ${output.toolName}: showing characters ${offset}-${end} of ${output.text.length}.`,
+          },
+        ],
+        isError: false,
+      };
+    }
+  );
+}
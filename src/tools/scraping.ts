@@ -1,7 +1,37 @@
+import { randomUUID } from "node:crypto";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import FirecrawlApp, { type ScrapeParams } from "@mendable/firecrawl-js";
+import FirecrawlApp, {
+  type Action,
+  type BatchScrapeStatusResponse,
+  type FirecrawlDocument,
+  type ScrapeParams,
+} from "@mendable/firecrawl-js";
 import { z } from "zod";
 import PQueue from "p-queue"; // バッチ処理のために追加
+import { withRetry, appendAttemptInfo } from "../utils/retry.js";
+import {
+  type CreditMonitor,
+  CREDIT_OVERRIDE_SCHEMA,
+  getCreditMonitor,
+} from "../utils/credits.js";
+import { getTenantId } from "../utils/tenant.js";
+import { readNumberEnv } from "../utils/env.js";
+import { getJobStore, onJobsPurged, type JobRecord } from "../store/index.js";
+import { CACHE_BYPASS_SCHEMA, CACHE_MAX_AGE_SCHEMA } from "../cache/index.js";
+import { batchQueueDepth } from "../utils/metrics.js";
+import { runOutsideToolCall } from "./middleware.js";
+import { logger } from "../utils/logger.js";
+import { screenshotToContent } from "../utils/screenshots.js";
+import {
+  DEFAULT_MAX_CHARACTERS,
+  DOCUMENT_FORMATS_SCHEMA,
+  formatDocumentPage,
+  MAX_CHARACTERS_SCHEMA,
+} from "../utils/documents.js";
+import {
+  emitResourceEvent,
+  registerScrapedDocument,
+} from "../resources/registry.js";
 
 // バッチ操作のインターフェース（mendableai/firecrawl-mcp-serverから参照）
 // Define the options schema separately for clarity and type inference
@@ -72,48 +102,429 @@ const BATCH_SCRAPE_OPTIONS_SCHEMA = z
   .optional();
 
 // バッチ操作のインターフェース（mendableai/firecrawl-mcp-serverから参照）
-interface QueuedBatchOperation {
-  id: string;
+// ジョブストアに保存されるため、JSONにできる値のみを持たせる
+interface QueuedBatchOperation extends JobRecord {
   urls: string[];
   options?: z.infer<typeof BATCH_SCRAPE_OPTIONS_SCHEMA>; // Infer type from Zod schema
-  status: "pending" | "processing" | "completed" | "failed";
+  status: "pending" | "processing" | "completed" | "failed" | "cancelled";
   progress: {
     completed: number;
     total: number;
   };
-  result?: unknown; // Use unknown instead of any
+  // ジョブ投入の再試行（再起動後の再投入を含む）で、Firecrawl側のジョブを二重に作らないためのキー
+  idempotencyKey?: string;
+  remoteJobId?: string; // Firecrawl側のバッチジョブID
+  remoteStatus?: BatchScrapeStatusResponse["status"]; // 最後に確認したFirecrawl側のステータス
+  invalidUrls?: string[]; // Firecrawlが受け付けなかったURL
+  failures: { url: string; error: string }[]; // URLごとの失敗
+  creditsUsed?: number;
+  resultCount?: number; // 完了時の結果件数（結果本体は batchResults に保持する）
   error?: string;
 }
 
 // バッチ処理キューと操作管理マップ（mendableai/firecrawl-mcp-serverから参照）
 const batchQueue = new PQueue({ concurrency: 1 });
-const batchOperations = new Map<string, QueuedBatchOperation>();
-let operationCounter = 0;
+const updateBatchQueueDepth = () =>
+  batchQueueDepth.set(batchQueue.size + batchQueue.pending);
+batchQueue.on("add", updateBatchQueueDepth);
+batchQueue.on("next", updateBatchQueueDepth);
+const BATCH_COLLECTION = "batch";
+// 完了したバッチの結果（大きくなるためストアには保存せず、再起動後はFirecrawlから再取得する）
+const batchResults = new Map<string, FirecrawlDocument<undefined>[]>();
+// ジョブストアから期限切れで削除された操作の結果を解放する
+onJobsPurged(() => {
+  for (const id of batchResults.keys()) {
+    if (!getOperation(id)) {
+      batchResults.delete(id);
+    }
+  }
+});
+// このプロセスでキュー投入済み・ポーリング中の操作（再開処理で二重に実行しないため）
+const trackedOperations = new Set<string>();
+// キューで待機中の操作の中断用（キャンセル時に abort するとキューから実行されずに取り除かれる）
+const queuedOperations = new Map<string, AbortController>();
+
+/**
+ * 更新日時を記録してバッチ操作をジョブストアに保存する
+ */
+function saveOperation(operation: QueuedBatchOperation): void {
+  operation.updatedAt = new Date().toISOString();
+  getJobStore().put(BATCH_COLLECTION, operation);
+}
+
+function getOperation(id: string): QueuedBatchOperation | undefined {
+  return getJobStore().get<QueuedBatchOperation>(BATCH_COLLECTION, id);
+}
+
+// 処理中の待機（API呼び出しなど）の間にキャンセルされたかを確認する
+function isCancelled(operation: QueuedBatchOperation): boolean {
+  return operation.status === "cancelled";
+}
+
+/**
+ * キューに積まれたバッチ操作がすべて完了するまで待つ（シャットダウン時に使用）
+ */
+export function waitForBatchQueue(): Promise<void> {
+  return batchQueue.onIdle();
+}
+
+// firecrawl_get_batch_results で1回に返す文書数のデフォルト
+const DEFAULT_BATCH_RESULTS_LIMIT = 10;
+
+// ステータスに列挙する失敗URLの上限
+const MAX_LISTED_FAILURES = 20;
+
+const sleep = (ms: number) =>
+  new Promise<void>((resolve) => setTimeout(resolve, ms).unref());
 
 // バッチ操作処理関数（mendableai/firecrawl-mcp-serverから参照）
+// キューではジョブの投入のみを行い、完了までの追跡はバックグラウンドのポーリングに任せる
 async function processBatchOperation(
   operation: QueuedBatchOperation,
-  client: FirecrawlApp // Firecrawlクライアントを引数で受け取る
+  client: FirecrawlApp, // Firecrawlクライアントを引数で受け取る
+  creditMonitor: CreditMonitor
 ): Promise<void> {
   try {
     operation.status = "processing";
+    // キーを持たない（このフィールドを追加する前に保存された）操作は、ここで発行して保存する
+    operation.idempotencyKey ??= randomUUID();
+    saveOperation(operation);
+    const idempotencyKey = operation.idempotencyKey;
     // ライブラリのバッチ処理を使用 (optionsを型アサーション)
-    const response = await client.asyncBatchScrapeUrls(
-      operation.urls,
-      operation.options as Omit<ScrapeParams, "url"> | undefined
+    const { result: response } = await withRetry("batch scrape", () =>
+      client.asyncBatchScrapeUrls(
+        operation.urls,
+        operation.options as Omit<ScrapeParams, "url"> | undefined,
+        idempotencyKey
+      )
     );
 
     if (!response.success) {
       throw new Error(response.error || "Batch operation failed");
     }
+    if (!response.id) {
+      throw new Error("Firecrawl did not return a batch job ID");
+    }
 
-    operation.status = "completed";
-    operation.result = response;
-    // 完了ログなどは必要に応じて追加
+    operation.remoteJobId = response.id;
+    operation.invalidUrls = response.invalidURLs;
+    saveOperation(operation);
+    logger.info("Submitted batch operation", {
+      operationId: operation.id,
+      remoteJobId: response.id,
+    });
+
+    // 投入中にキャンセルされた場合は、作成されたジョブをすぐに止める
+    if (isCancelled(operation)) {
+      await cancelRemoteBatch(client, response.id);
+      operation.remoteStatus = "cancelled";
+      saveOperation(operation);
+      trackedOperations.delete(operation.id);
+      return;
+    }
+
+    void pollBatchOperation(operation, client, creditMonitor);
+  } catch (error) {
+    trackedOperations.delete(operation.id);
+    if (isCancelled(operation)) {
+      if (operation.remoteJobId) {
+        logger.warn("Failed to cancel submitted batch operation", {
+          operationId: operation.id,
+          remoteJobId: operation.remoteJobId,
+          error,
+        });
+      } else {
+        // 投入自体が失敗したため、Firecrawl側に止めるジョブはない
+        logger.warn("Batch submission failed after cancellation", {
+          operationId: operation.id,
+          error,
+        });
+      }
+      return;
+    }
+    operation.status = "failed";
+    operation.error = error instanceof Error ? error.message : String(error);
+    saveOperation(operation);
+    logger.error("Batch operation failed", {
+      operationId: operation.id,
+      error,
+    });
+  }
+}
+
+/**
+ * Firecrawl側のバッチジョブが終了するまでステータスを確認し、操作の進捗に反映する
+ * 間隔は FIRECRAWL_BATCH_POLL_INTERVAL（ミリ秒、デフォルト: 5000）
+ */
+async function pollBatchOperation(
+  operation: QueuedBatchOperation,
+  client: FirecrawlApp,
+  creditMonitor: CreditMonitor
+): Promise<void> {
+  const jobId = operation.remoteJobId;
+  if (!jobId) {
+    return;
+  }
+  const interval = readNumberEnv("FIRECRAWL_BATCH_POLL_INTERVAL", 5000);
+  trackedOperations.add(operation.id);
+
+  try {
+    for (;;) {
+      const { result: response } = await withRetry(
+        "check batch scrape status",
+        () => client.checkBatchScrapeStatus(jobId)
+      );
+      if (!response.success) {
+        throw new Error(response.error || "Failed to check batch status");
+      }
+      // キャンセル後の進捗・クレジットはキャンセルしたツールが反映する
+      if (isCancelled(operation)) {
+        return;
+      }
+
+      operation.remoteStatus = response.status;
+      operation.progress = {
+        completed: response.completed,
+        total: response.total || operation.progress.total,
+      };
+      operation.creditsUsed = response.creditsUsed;
+      saveOperation(operation);
+      creditMonitor.recordUsage(response.creditsUsed, jobId);
+
+      if (response.status !== "scraping") {
+        await finalizeBatchOperation(operation, client, response);
+        return;
+      }
+      await sleep(interval);
+      if (isCancelled(operation)) {
+        return;
+      }
+    }
   } catch (error) {
+    if (isCancelled(operation)) {
+      return;
+    }
     operation.status = "failed";
     operation.error = error instanceof Error ? error.message : String(error);
-    // エラーログなどは必要に応じて追加
+    saveOperation(operation);
+    logger.error("Failed to track batch operation", {
+      operationId: operation.id,
+      remoteJobId: jobId,
+      error,
+    });
+  } finally {
+    trackedOperations.delete(operation.id);
+  }
+}
+
+/**
+ * 終了したバッチジョブの結果とURLごとの失敗を取得する
+ */
+async function finalizeBatchOperation(
+  operation: QueuedBatchOperation,
+  client: FirecrawlApp,
+  response: BatchScrapeStatusResponse
+): Promise<void> {
+  const jobId = operation.remoteJobId as string;
+
+  if (response.status === "completed") {
+    // ページングされている場合は全件を取得する
+    const { result: full } = await withRetry("fetch batch scrape results", () =>
+      client.checkBatchScrapeStatus(jobId, true)
+    );
+    const documents = full.success ? full.data : response.data;
+    batchResults.set(operation.id, documents);
+    operation.resultCount = documents.length;
+  }
+
+  try {
+    const { result: errors } = await withRetry(
+      "fetch batch scrape errors",
+      () => client.checkBatchScrapeErrors(jobId)
+    );
+    if ("errors" in errors) {
+      operation.failures = [
+        ...errors.errors.map(({ url, error }) => ({ url, error })),
+        ...errors.robotsBlocked.map((url) => ({
+          url,
+          error: "Blocked by robots.txt",
+        })),
+      ];
+    }
+  } catch (error) {
+    // 失敗の詳細が取れなくても結果は返せるため、ログのみ残す
+    logger.warn("Failed to fetch batch scrape errors", {
+      operationId: operation.id,
+      error,
+    });
+  }
+
+  if (response.status === "completed") {
+    operation.status = "completed";
+    emitResourceEvent({ type: "listChanged", tenantId: operation.tenantId });
+  } else if (response.status === "cancelled") {
+    // Firecrawlのダッシュボードなど、このサーバー以外からキャンセルされた場合
+    operation.status = "cancelled";
+  } else {
+    operation.status = "failed";
+    operation.error = `Batch job ${response.status} on Firecrawl`;
+  }
+  saveOperation(operation);
+  logger.info("Batch operation finished", {
+    operationId: operation.id,
+    status: operation.status,
+    completed: operation.progress.completed,
+    total: operation.progress.total,
+    failures: operation.failures.length,
+  });
+}
+
+/**
+ * 完了したバッチの結果を取得する（再起動などでメモリにない場合はFirecrawlから再取得する）
+ */
+async function loadBatchResults(
+  operation: QueuedBatchOperation,
+  client: FirecrawlApp,
+  signal?: AbortSignal
+): Promise<FirecrawlDocument<undefined>[] | undefined> {
+  const cached = batchResults.get(operation.id);
+  if (cached || operation.status !== "completed" || !operation.remoteJobId) {
+    return cached;
+  }
+  const jobId = operation.remoteJobId;
+  const { result: response } = await withRetry(
+    "fetch batch scrape results",
+    () => client.checkBatchScrapeStatus(jobId, true),
+    { signal }
+  );
+  if (!response.success) {
+    throw new Error(response.error || "Failed to fetch batch results");
+  }
+  batchResults.set(operation.id, response.data);
+  return response.data;
+}
+
+/**
+ * 完了したバッチ操作の一覧（リソースの一覧用。結果がメモリにある場合は documents に含める）
+ */
+export function listCompletedBatches(tenantId: string): {
+  id: string;
+  resultCount: number;
+  documents?: FirecrawlDocument<undefined>[];
+}[] {
+  return getJobStore()
+    .list<QueuedBatchOperation>(BATCH_COLLECTION)
+    .filter(
+      (operation) =>
+        operation.tenantId === tenantId && operation.status === "completed"
+    )
+    .map((operation) => ({
+      id: operation.id,
+      resultCount: operation.resultCount ?? 0,
+      documents: batchResults.get(operation.id),
+    }));
+}
+
+/**
+ * 完了したバッチ操作の結果を取得する（見つからない・完了していない場合はundefined）
+ */
+export async function loadCompletedBatch(
+  tenantId: string,
+  id: string,
+  client: FirecrawlApp,
+  signal?: AbortSignal
+): Promise<FirecrawlDocument<undefined>[] | undefined> {
+  const operation = getOperation(id);
+  if (!operation || operation.tenantId !== tenantId) {
+    return undefined;
+  }
+  return loadBatchResults(operation, client, signal);
+}
+
+/**
+ * バッチ操作をキューに追加する（非同期で実行される）
+ */
+function enqueueBatchOperation(
+  operation: QueuedBatchOperation,
+  client: FirecrawlApp,
+  creditMonitor: CreditMonitor
+): void {
+  const controller = new AbortController();
+  queuedOperations.set(operation.id, controller);
+  trackedOperations.add(operation.id);
+  // 投入とポーリングはツール呼び出しの終了後も続くため、呼び出しのコンテキストを引き継がない
+  runOutsideToolCall(() =>
+    batchQueue
+      .add(
+        () => {
+          queuedOperations.delete(operation.id);
+          return processBatchOperation(operation, client, creditMonitor);
+        },
+        { signal: controller.signal }
+      )
+      .catch(() => {
+        // キャンセルで中断された場合。processBatchOperation 自体はエラーを投げない
+        queuedOperations.delete(operation.id);
+      })
+  );
+}
+
+/**
+ * Firecrawl側のバッチジョブをキャンセルする（SDKにバッチ用のメソッドがないため直接APIを呼ぶ）
+ */
+async function cancelRemoteBatch(
+  client: FirecrawlApp,
+  jobId: string,
+  signal?: AbortSignal
+): Promise<void> {
+  const { result: response } = await withRetry(
+    "cancel batch scrape",
+    () =>
+      client.deleteRequest(
+        `${client.apiUrl}/v1/batch/scrape/${jobId}`,
+        client.prepareHeaders()
+      ),
+    { signal }
+  );
+  if (response.status !== 200) {
+    throw new Error(
+      `Failed to cancel batch job ${jobId} (HTTP ${response.status})`
+    );
+  }
+}
+
+/**
+ * 再起動前に開始され、終了していないバッチ操作の処理を再開する
+ * APIキーは保存しないため、同じアカウントのツールが登録された時点で再開する
+ */
+function resumeBatchOperations(
+  tenantId: string,
+  client: FirecrawlApp,
+  creditMonitor: CreditMonitor
+): void {
+  const unfinished = getJobStore()
+    .list<QueuedBatchOperation>(BATCH_COLLECTION)
+    .filter(
+      (operation) =>
+        operation.tenantId === tenantId &&
+        (operation.status === "pending" || operation.status === "processing") &&
+        !trackedOperations.has(operation.id)
+    );
+
+  for (const operation of unfinished) {
+    if (operation.remoteJobId) {
+      logger.info("Resuming batch operation", { operationId: operation.id });
+      void pollBatchOperation(operation, client, creditMonitor);
+    } else if (operation.status === "pending") {
+      logger.info("Requeueing batch operation", { operationId: operation.id });
+      enqueueBatchOperation(operation, client, creditMonitor);
+    } else {
+      // 投入中に停止したため、Firecrawl側にジョブが作られたか判断できない
+      operation.status = "failed";
+      operation.error =
+        "Interrupted by a server restart while submitting. Please retry the batch.";
+      saveOperation(operation);
+    }
   }
 }
 
@@ -133,6 +544,9 @@ export function registerScrapingTools(
     apiKey,
     ...(apiUrl ? { apiUrl } : {}),
   });
+  const creditMonitor = getCreditMonitor(apiKey, apiUrl);
+  const tenantId = getTenantId(apiKey, apiUrl);
+  resumeBatchOperations(tenantId, client, creditMonitor);
 
   // --- firecrawl_scrape ---
   const SCRAPE_TOOL_SCHEMA = {
@@ -225,13 +639,15 @@ export function registerScrapingTools(
       })
       .optional()
       .describe("Location settings for scraping"),
+    maxAge: CACHE_MAX_AGE_SCHEMA,
+    bypassCache: CACHE_BYPASS_SCHEMA,
   };
 
   server.tool(
     "firecrawl_scrape",
     "Scrape a single webpage with advanced options for content extraction. Supports various formats including markdown, HTML, and screenshots. Can execute custom actions like clicking or scrolling before scraping.",
     SCRAPE_TOOL_SCHEMA,
-    async (args) => {
+    async (args, extra) => {
       const { url, ...options } = args;
       // formatsが未指定の場合のデフォルト処理
       const effectiveFormats = options.formats?.length
@@ -239,15 +655,23 @@ export function registerScrapingTools(
         : ["markdown"];
 
       try {
-        const response = await client.scrapeUrl(url, {
-          ...options,
-          formats: effectiveFormats as ScrapeParams["formats"], // 型キャストを追加
-          // origin: "mcp-server", // Remove origin as it's not in ScrapeParams type
-        } as ScrapeParams); // Cast the entire options object
+        // actions のスクリーンショットを型付きで受け取るため Action[] を指定する
+        const { result: response, attempts } = await withRetry(
+          "scrape URL",
+          () =>
+            client.scrapeUrl(url, {
+              ...options,
+              formats: effectiveFormats as ScrapeParams["formats"], // 型キャストを追加
+              // origin: "mcp-server", // Remove origin as it's not in ScrapeParams type
+            } as ScrapeParams<z.ZodTypeAny, Action[]>), // Cast the entire options object
+          { signal: extra.signal }
+        );
 
         if ("success" in response && !response.success) {
           throw new Error(response.error || "Scraping failed");
         }
+        // 取得した文書は firecrawl://scrape/{id} のリソースとしても読めるようにする
+        registerScrapedDocument(tenantId, url, response);
 
         // 結果のフォーマット処理
         const contentParts = [];
@@ -263,24 +687,53 @@ export function registerScrapingTools(
         if (effectiveFormats.includes("links") && response.links) {
           contentParts.push(`## Links\n\n${response.links.join("\n")}`);
         }
-        if (effectiveFormats.includes("screenshot") && response.screenshot) {
-          // スクリーンショットはテキストではないため、別の方法で扱うか、URLなどを返す
+        if (effectiveFormats.includes("extract") && response.extract) {
           contentParts.push(
-            `## Screenshot\n\n(Screenshot data is available but not displayed as text)`
+            `## Extracted Data\n\n${JSON.stringify(response.extract, null, 2)}`
           );
         }
-        if (effectiveFormats.includes("extract") && response.extract) {
+
+        // スクリーンショット（formats・actions）は画像コンテンツとして返す
+        const screenshots: { label: string; source: string }[] = [];
+        if (
+          (effectiveFormats.includes("screenshot") ||
+            effectiveFormats.includes("screenshot@fullPage")) &&
+          response.screenshot
+        ) {
+          screenshots.push({
+            label: effectiveFormats.includes("screenshot@fullPage")
+              ? "Full-page screenshot"
+              : "Screenshot",
+            source: response.screenshot,
+          });
+        }
+        response.actions?.screenshots?.forEach((source, index) => {
+          screenshots.push({
+            label: `Action screenshot ${index + 1}`,
+            source,
+          });
+        });
+        if (screenshots.length > 0) {
           contentParts.push(
-            `## Extracted Data\n\n${JSON.stringify(response.extract, null, 2)}`
+            `## Screenshots\n\n${screenshots.map(({ label }) => `- ${label}`).join("\n")}\n\n(Returned as image content)`
           );
         }
+        const imageContents = await Promise.all(
+          screenshots.map(({ label, source }) =>
+            screenshotToContent(source, label)
+          )
+        );
 
         return {
           content: [
             {
               type: "text",
-              text: contentParts.join("\n\n---\n\n") || "No content available",
+              text: appendAttemptInfo(
+                contentParts.join("\n\n---\n\n") || "No content available",
+                attempts
+              ),
             },
+            ...imageContents,
           ],
           isError: false,
         };
@@ -365,6 +818,7 @@ export function registerScrapingTools(
   const BATCH_SCRAPE_TOOL_SCHEMA = {
     urls: z.array(z.string()).describe("List of URLs to scrape"),
     options: BATCH_SCRAPE_OPTIONS_SCHEMA,
+    ignoreCreditLimit: CREDIT_OVERRIDE_SCHEMA,
   };
 
   server.tool(
@@ -373,22 +827,30 @@ export function registerScrapingTools(
     BATCH_SCRAPE_TOOL_SCHEMA,
     async ({ urls, options }) => {
       try {
-        const operationId = `batch_${++operationCounter}`;
+        const operationId = `batch_${getJobStore().nextSequence(BATCH_COLLECTION)}`;
+        const now = new Date().toISOString();
         const operation: QueuedBatchOperation = {
           id: operationId,
+          tenantId,
+          createdAt: now,
+          updatedAt: now,
           urls: urls,
           options: options,
           status: "pending",
           progress: { completed: 0, total: urls.length },
+          failures: [],
+          idempotencyKey: randomUUID(),
         };
-        batchOperations.set(operationId, operation);
+        saveOperation(operation);
 
-        // キューに追加（非同期で実行される）
-        batchQueue.add(() => processBatchOperation(operation, client));
+        // バッチはこの呼び出しの終了後もバックグラウンドで続くため、呼び出しの signal とは結びつけない
+        // （止める場合は firecrawl_cancel_batch を使う）
+        enqueueBatchOperation(operation, client, creditMonitor);
 
-        console.log(
-          `Queued batch operation ${operationId} with ${urls.length} URLs`
-        );
+        logger.info("Queued batch operation", {
+          operationId,
+          urls: urls.length,
+        });
         return {
           content: [
             {
@@ -419,9 +881,9 @@ export function registerScrapingTools(
     "Check the status of a batch scraping job.",
     CHECK_BATCH_STATUS_TOOL_SCHEMA,
     async ({ id }) => {
-      const operation = batchOperations.get(id);
+      const operation = getOperation(id);
 
-      if (!operation) {
+      if (!operation || operation.tenantId !== tenantId) {
         return {
           content: [
             {
@@ -434,13 +896,47 @@ export function registerScrapingTools(
       }
 
       // mendableai/firecrawl-mcp-serverの実装を参考にステータス情報を返す
-      // 結果が大きい場合があるので、JSON.stringifyの代わりに一部情報のみ表示するなどの工夫が必要な場合がある
-      const status = `Batch Status:
-ID: ${operation.id}
-Status: ${operation.status}
-Progress: ${operation.progress.completed}/${operation.progress.total}
-${operation.error ? `Error: ${operation.error}` : ""}
-${operation.result ? `Result available (use specific tool to view details if needed)` : ""}`;
+      // 結果が大きい場合があるので、結果本体ではなく件数・失敗URLのみ表示する
+      const lines = [
+        "Batch Status:",
+        `ID: ${operation.id}`,
+        `Status: ${operation.status}`,
+        `Progress: ${operation.progress.completed}/${operation.progress.total}`,
+      ];
+      if (operation.remoteJobId) {
+        lines.push(
+          `Firecrawl job: ${operation.remoteJobId} (${operation.remoteStatus ?? "submitted"})`
+        );
+      }
+      if (operation.creditsUsed !== undefined) {
+        lines.push(`Credits used: ${operation.creditsUsed}`);
+      }
+      lines.push(`Last updated: ${operation.updatedAt}`);
+      if (operation.invalidUrls?.length) {
+        lines.push(`Invalid URLs: ${operation.invalidUrls.join(", ")}`);
+      }
+      if (operation.failures.length > 0) {
+        lines.push(
+          `Failed URLs (${operation.failures.length}):`,
+          ...operation.failures
+            .slice(0, MAX_LISTED_FAILURES)
+            .map(({ url, error }) => `- ${url}: ${error}`)
+        );
+        if (operation.failures.length > MAX_LISTED_FAILURES) {
+          lines.push(
+            `- ...and ${operation.failures.length - MAX_LISTED_FAILURES} more`
+          );
+        }
+      }
+      if (operation.error) {
+        lines.push(`Error: ${operation.error}`);
+      }
+      if (operation.resultCount !== undefined) {
+        lines.push(
+          `Results: ${operation.resultCount} documents available (use firecrawl_get_batch_results to read them)`
+        );
+      }
+      const status = lines.join("\n");
 
       return {
         content: [{ type: "text", text: status }],
@@ -448,4 +944,233 @@ ${operation.result ? `Result available (use specific tool to view details if nee
       };
     }
   );
+
+  // --- firecrawl_get_batch_results ---
+  const GET_BATCH_RESULTS_TOOL_SCHEMA = {
+    id: z.string().describe("Batch job ID returned by firecrawl_batch_scrape"),
+    offset: z
+      .number()
+      .int()
+      .min(0)
+      .optional()
+      .describe("Index of the first document to return (default: 0)"),
+    limit: z
+      .number()
+      .int()
+      .positive()
+      .optional()
+      .describe(
+        `Maximum number of documents to return (default: ${DEFAULT_BATCH_RESULTS_LIMIT})`
+      ),
+    formats: DOCUMENT_FORMATS_SCHEMA,
+    maxCharacters: MAX_CHARACTERS_SCHEMA,
+  };
+
+  server.tool(
+    "firecrawl_get_batch_results",
+    "Retrieve the scraped documents of a completed batch scraping job, page by page. Use offset/limit to page through large batches.",
+    GET_BATCH_RESULTS_TOOL_SCHEMA,
+    async ({ id, offset = 0, limit, formats, maxCharacters }, extra) => {
+      const operation = getOperation(id);
+
+      if (!operation || operation.tenantId !== tenantId) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `No batch operation found with ID: ${id}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+      let documents: FirecrawlDocument<undefined>[] | undefined;
+      try {
+        documents = await loadBatchResults(operation, client, extra.signal);
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error ? error.message : String(error);
+        return {
+          content: [{ type: "text", text: `Error: ${errorMessage}` }],
+          isError: true,
+        };
+      }
+      if (!documents) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error: Results for ${id} are not available (status: ${operation.status}${operation.error ? `, error: ${operation.error}` : ""}). Use firecrawl_check_batch_status to follow progress.`,
+            },
+          ],
+          isError: true,
+        };
+      }
+
+      const total = documents.length;
+      if (offset >= total && total > 0) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error: offset ${offset} is out of range (${total} documents).`,
+            },
+          ],
+          isError: true,
+        };
+      }
+
+      const end = Math.min(
+        offset + (limit ?? DEFAULT_BATCH_RESULTS_LIMIT),
+        total
+      );
+      const page = formatDocumentPage(documents.slice(0, end), {
+        offset,
+        formats: formats?.length ? formats : ["markdown"],
+        maxCharacters: maxCharacters ?? DEFAULT_MAX_CHARACTERS,
+      });
+      // 文字数上限か limit のどちらかで止まった位置から次のページを始める
+      const nextOffset = page.nextOffset ?? (end < total ? end : undefined);
+
+      const header =
+        page.count > 0
+          ? `Batch ${id}: documents ${offset}-${offset + page.count - 1} of ${total}`
+          : `Batch ${id}: no documents`;
+      const footer =
+        nextOffset !== undefined
+          ? `More documents available. Call again with offset: ${nextOffset}.`
+          : "End of results.";
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: [header, page.text, footer]
+              .filter((part) => part !== "")
+              .join("\n\n"),
+          },
+        ],
+        isError: false,
+      };
+    }
+  );
+
+  // --- firecrawl_cancel_batch ---
+  const CANCEL_BATCH_TOOL_SCHEMA = {
+    id: z.string().describe("Batch job ID returned by firecrawl_batch_scrape"),
+  };
+
+  server.tool(
+    "firecrawl_cancel_batch",
+    "Cancel a batch scraping job. Queued jobs are removed before they start; running jobs are cancelled on Firecrawl. Reports the pages and credits used before cancellation.",
+    CANCEL_BATCH_TOOL_SCHEMA,
+    async ({ id }, extra) => {
+      const operation = getOperation(id);
+
+      if (!operation || operation.tenantId !== tenantId) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `No batch operation found with ID: ${id}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+      if (
+        operation.status === "completed" ||
+        operation.status === "failed" ||
+        operation.status === "cancelled"
+      ) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error: Batch ${id} has already finished (status: ${operation.status}).`,
+            },
+          ],
+          isError: true,
+        };
+      }
+
+      const jobId = operation.remoteJobId;
+      if (!jobId) {
+        // 投入前の操作はキューから取り除く（投入中の場合は、作成されたジョブを processBatchOperation が止める）
+        const queued = queuedOperations.get(id);
+        operation.status = "cancelled";
+        saveOperation(operation);
+        if (queued) {
+          queued.abort();
+          trackedOperations.delete(id);
+        }
+        logger.info("Cancelled batch operation", { operationId: id });
+        return {
+          content: [
+            {
+              type: "text",
+              text: queued
+                ? `Cancelled batch ${id} before it was submitted to Firecrawl. No pages were scraped and no credits were used.`
+                : `Cancelled batch ${id} while it was being submitted. The Firecrawl job will be cancelled as soon as it is created.`,
+            },
+          ],
+          isError: false,
+        };
+      }
+
+      try {
+        await cancelRemoteBatch(client, jobId, extra.signal);
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error ? error.message : String(error);
+        return {
+          content: [{ type: "text", text: `Error: ${errorMessage}` }],
+          isError: true,
+        };
+      }
+      operation.status = "cancelled";
+      operation.remoteStatus = "cancelled";
+
+      // キャンセル時点の進捗と使用クレジットを反映する
+      try {
+        const { result: response } = await withRetry(
+          "check batch scrape status",
+          () => client.checkBatchScrapeStatus(jobId),
+          { signal: extra.signal }
+        );
+        if (response.success) {
+          operation.progress = {
+            completed: response.completed,
+            total: response.total || operation.progress.total,
+          };
+          operation.creditsUsed = response.creditsUsed;
+          creditMonitor.recordUsage(response.creditsUsed, jobId);
+        }
+      } catch (error) {
+        logger.warn("Failed to fetch status of cancelled batch", {
+          operationId: id,
+          error,
+        });
+      }
+      saveOperation(operation);
+      logger.info("Cancelled batch operation", {
+        operationId: id,
+        remoteJobId: jobId,
+      });
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: [
+              `Cancelled batch ${id} (Firecrawl job: ${jobId}).`,
+              `Pages scraped before cancellation: ${operation.progress.completed}/${operation.progress.total}`,
+              `Credits used: ${operation.creditsUsed ?? "N/A"}`,
+            ].join("\n"),
+          },
+        ],
+        isError: false,
+      };
+    }
+  );
 }
@@ -1,10 +1,33 @@
+import { randomUUID } from "node:crypto";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import FirecrawlApp, {
+  type DeepResearchStatusResponse,
+  type ErrorResponse,
   type ExtractParams,
-  type ExtractResponse,
   type GenerateLLMsTextParams,
+  type GenerateLLMsTextStatusResponse,
 } from "@mendable/firecrawl-js";
 import { z } from "zod";
+import { withRetry, appendAttemptInfo } from "../utils/retry.js";
+import {
+  CREDIT_OVERRIDE_SCHEMA,
+  extractCreditsUsed,
+  getCreditMonitor,
+} from "../utils/credits.js";
+import { logger } from "../utils/logger.js";
+import { pollUntilDone } from "../utils/polling.js";
+import { CACHE_BYPASS_SCHEMA, CACHE_MAX_AGE_SCHEMA } from "../cache/index.js";
+import type { LoggingLevel } from "@modelcontextprotocol/sdk/types.js";
+import type { ToolExtra } from "./middleware.js";
+import {
+  createClientLogger,
+  createProgressReporter,
+} from "../utils/progress.js";
+import {
+  formatResearchReport,
+  type ResearchActivity,
+  type ResearchSource,
+} from "../utils/research.js";
 
 // Define base types for tool arguments
 interface SearchArgs {
@@ -40,6 +63,9 @@ interface DeepResearchArgs {
   maxDepth?: number;
   timeLimit?: number;
   maxUrls?: number;
+  includeSources?: boolean;
+  includeActivities?: boolean;
+  outputFormat?: "markdown" | "json";
 }
 
 interface GenerateLLMsTextArgs {
@@ -56,6 +82,51 @@ interface DeepResearchParams {
   maxUrls?: number;
 }
 
+// maxDepth 未指定時のFirecrawl側のデフォルト（進捗の割合の見積もりに使用）
+const DEFAULT_RESEARCH_MAX_DEPTH = 7;
+
+// 進捗の通知がない状態が続いた場合に送るキープアライブの間隔
+// 多くのMCPクライアントのリクエストタイムアウト（60秒）より十分短くする
+const RESEARCH_KEEPALIVE_INTERVAL_MS = 15000;
+
+// 非同期ジョブの状態を確認する間隔（firecrawl-js の同期版メソッドと同じ）
+const EXTRACT_POLL_INTERVAL_MS = 1000;
+const RESEARCH_POLL_INTERVAL_MS = 2000;
+const LLMSTXT_POLL_INTERVAL_MS = 2000;
+
+/**
+ * 非同期ジョブの開始レスポンス（asyncExtract などの戻り値）
+ */
+interface AsyncJobResponse {
+  success: boolean;
+  id?: string;
+  error?: string;
+}
+
+/**
+ * 抽出ジョブの状態（getExtractStatus の戻り値。SDKでは any のため、ここで型を定める）
+ */
+interface ExtractStatusResponse {
+  success: true;
+  status: "processing" | "completed" | "failed" | "cancelled";
+  data?: unknown;
+  error?: string;
+  creditsUsed?: number;
+}
+
+// 開始レスポンスからジョブIDを取り出す（失敗した場合は例外を投げる）
+function startedJobId(response: AsyncJobResponse, operation: string): string {
+  if (!response.success || !response.id) {
+    throw new Error(response.error || `Failed to start ${operation} job`);
+  }
+  return response.id;
+}
+
+// 呼び出しが中断された場合のログ（抽出・調査・生成ジョブはAPIで中止できないため、結果を待つのをやめるだけ）
+function logAbandonedJob(operation: string, jobId: string | undefined) {
+  logger.info("Stopped waiting for Firecrawl job", { operation, jobId });
+}
+
 /**
  * 検索・抽出関連ツールを登録する
  * @param server MCPサーバーインスタンス
@@ -72,6 +143,7 @@ export function registerSearchTools(
     apiKey,
     ...(apiUrl ? { apiUrl } : {}),
   });
+  const creditMonitor = getCreditMonitor(apiKey, apiUrl);
 
   // --- firecrawl_search ---
   const SEARCH_TOOL_SCHEMA = {
@@ -132,19 +204,26 @@ export function registerSearchTools(
       })
       .optional()
       .describe("Options for scraping search results"),
+    maxAge: CACHE_MAX_AGE_SCHEMA,
+    bypassCache: CACHE_BYPASS_SCHEMA,
   };
 
   server.tool(
     "firecrawl_search",
     "Search and retrieve content from web pages with optional scraping. Returns SERP results by default (url, title, description) or full page content when scrapeOptions are provided.",
     SEARCH_TOOL_SCHEMA,
-    async (args: SearchArgs) => {
+    async (args: SearchArgs, extra: ToolExtra) => {
       const { query, ...options } = args;
       try {
-        const response = await client.search(query, {
-          ...options,
-          // origin: "mcp-server", // Remove origin if not supported
-        }); // Remove cast as SearchOptions is not imported/needed here
+        const { result: response, attempts } = await withRetry(
+          "search",
+          () =>
+            client.search(query, {
+              ...options,
+              // origin: "mcp-server", // Remove origin if not supported
+            }), // Remove cast as SearchOptions is not imported/needed here
+          { signal: extra.signal }
+        );
 
         if (!response.success) {
           throw new Error(
@@ -152,7 +231,7 @@ export function registerSearchTools(
           );
         }
 
-        // Monitor credits if needed
+        creditMonitor.recordUsage(extractCreditsUsed(response));
 
         // Format the results
         const results = response.data
@@ -166,7 +245,9 @@ ${result.markdown ? `\nContent:\n${result.markdown}` : ""}`
           .join("\n\n");
 
         return {
-          content: [{ type: "text", text: results }],
+          content: [
+            { type: "text", text: appendAttemptInfo(results, attempts) },
+          ],
           isError: false,
         };
       } catch (error) {
@@ -213,34 +294,50 @@ ${result.markdown ? `\nContent:\n${result.markdown}` : ""}`
     "firecrawl_extract",
     "Extract structured information from web pages using LLM. Supports both cloud AI and self-hosted LLM extraction.",
     EXTRACT_TOOL_SCHEMA,
-    async (args: ExtractArgs) => {
+    async (args: ExtractArgs, extra: ToolExtra) => {
       const { urls, ...options } = args;
+      let jobId: string | undefined;
+      // 応答が失われて再試行した場合に、抽出ジョブを二重に開始しない（クレジットを二重に消費しない）
+      const idempotencyKey = randomUUID();
       try {
         // Log if using self-hosted instance if needed
 
-        const extractResponse = await client.extract(urls, {
-          ...options,
-          // origin: "mcp-server", // Remove origin if not supported
-        } as ExtractParams); // Cast options
-
-        if (!("success" in extractResponse) || !extractResponse.success) {
-          // Handle potential error structure difference if needed
-          let errorMsg = "Extraction failed";
-          const unknownResponse = extractResponse as unknown; // Cast to unknown for safe access
-          if (
-            unknownResponse &&
-            typeof unknownResponse === "object" &&
-            "error" in unknownResponse &&
-            typeof unknownResponse.error === "string"
-          ) {
-            errorMsg = unknownResponse.error;
-          }
-          throw new Error(errorMsg);
-        }
+        // キャンセル時にポーリングをやめられるよう、ジョブの開始と完了待ちを分けて行う
+        const { result: started, attempts } = await withRetry(
+          "extract",
+          () =>
+            client.asyncExtract(
+              urls,
+              {
+                ...options,
+                // origin: "mcp-server", // Remove origin if not supported
+              } as ExtractParams, // Cast options
+              idempotencyKey
+            ) as Promise<AsyncJobResponse>,
+          { signal: extra.signal }
+        );
+        jobId = startedJobId(started, "extract");
+        const id = jobId;
+
+        const response = await pollUntilDone<
+          ExtractStatusResponse | ErrorResponse
+        >("check extract status", () => client.getExtractStatus(id), {
+          intervalMs: EXTRACT_POLL_INTERVAL_MS,
+          signal: extra.signal,
+        });
 
-        const response = extractResponse as ExtractResponse; // Type assertion after success check
+        if (!response.success) {
+          throw new Error(response.error || "Extraction failed");
+        }
+        if (response.status !== "completed") {
+          throw new Error(
+            response.status === "failed" || response.status === "cancelled"
+              ? `Extract job ${response.status}. Error: ${response.error}`
+              : response.error || "Extraction failed"
+          );
+        }
 
-        // Monitor credits if needed
+        creditMonitor.recordUsage(extractCreditsUsed(response));
 
         // Add warning handling if needed
 
@@ -248,12 +345,18 @@ ${result.markdown ? `\nContent:\n${result.markdown}` : ""}`
           content: [
             {
               type: "text",
-              text: JSON.stringify(response.data, null, 2),
+              text: appendAttemptInfo(
+                JSON.stringify(response.data, null, 2),
+                attempts
+              ),
             },
           ],
           isError: false,
         };
       } catch (error) {
+        if (extra.signal.aborted) {
+          logAbandonedJob("extract", jobId);
+        }
         const errorMessage =
           error instanceof Error ? error.message : String(error);
         // Handle self-hosted instance errors if needed
@@ -282,6 +385,24 @@ ${result.markdown ? `\nContent:\n${result.markdown}` : ""}`
     progress: number; // Progress percentage (0-100)
     message: string;
     timestamp?: string; // タイムスタンプを追加
+    elapsedSeconds: number; // 開始からの経過時間
+  }
+
+  // Firecrawlのアクティビティには割合が含まれないため、フェーズと深さから見積もる
+  function estimateResearchProgress(
+    phase: ResearchPhase,
+    depth: number,
+    maxDepth: number
+  ): number {
+    switch (phase) {
+      case ResearchPhase.REPORT:
+        return 85;
+      case ResearchPhase.COMPLETED:
+      case ResearchPhase.POST_PROCESSING:
+        return 90;
+      default:
+        return 5 + Math.round((80 * Math.min(depth, maxDepth)) / maxDepth);
+    }
   }
 
   const DEEP_RESEARCH_TOOL_SCHEMA = {
@@ -304,239 +425,281 @@ ${result.markdown ? `\nContent:\n${result.markdown}` : ""}`
       .describe(
         "Maximum number of URLs to analyze (1-1000). Recommended: 10-30 for quick research, 30-50 for comprehensive research. Values above 50 may lead to timeouts. Higher values require significantly longer processing time, especially during post-completion processing."
       ),
+    includeSources: z
+      .boolean()
+      .optional()
+      .describe(
+        "Include a numbered source list (title and URL) and replace links in the analysis with citations like [1] that refer to it"
+      ),
+    includeActivities: z
+      .boolean()
+      .optional()
+      .describe("Include the timeline of research activities"),
+    outputFormat: z
+      .enum(["markdown", "json"])
+      .optional()
+      .describe(
+        "Output format (default: markdown). json returns finalAnalysis, sources and activities as a JSON object"
+      ),
+    ignoreCreditLimit: CREDIT_OVERRIDE_SCHEMA,
   };
 
   server.tool(
     "firecrawl_deep_research",
     "Conduct deep research on a query using web crawling, search, and AI analysis.",
     DEEP_RESEARCH_TOOL_SCHEMA,
-    async (args: DeepResearchArgs) => {
-      const { query, ...options } = args;
-      console.log(
-        `Starting deep research for query: "${query}" with options:`,
-        options
+    async (args: DeepResearchArgs, extra: ToolExtra) => {
+      const {
+        query,
+        includeSources,
+        includeActivities,
+        outputFormat,
+        ...options
+      } = args;
+      logger.info("Starting deep research", { query, ...options });
+
+      // 最終結果に含まれない場合に備えて、途中で通知された情報源と経過も集めておく
+      const collectedSources: ResearchSource[] = [];
+      const collectedActivities: ResearchActivity[] = [];
+
+      // 進捗は呼び出し元のセッションに progress 通知とログメッセージで送る
+      const startedAt = Date.now();
+      const maxDepth = options.maxDepth || DEFAULT_RESEARCH_MAX_DEPTH;
+      const reportProgress = createProgressReporter(extra);
+      const notifyClient = createClientLogger(
+        server,
+        extra,
+        "firecrawl_deep_research"
       );
-      const startTime = Date.now();
-
-      try {
-        // client.deepResearch might not exist or have different signature
-        // Assuming it exists and matches the schema for now
-        // Need to verify the actual method signature in firecrawl-js
-        // Using 'any' cast as a temporary workaround if the method is not typed
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        const response = await (client as any).deepResearch(
-          query,
+      let currentPhase = ResearchPhase.SEARCH;
+      let percentage = 0;
+      let lastNotifiedAt = startedAt;
+
+      const forwardProgress = (
+        detail: ProgressDetail,
+        level: LoggingLevel = "info"
+      ) => {
+        // progress 通知の値は増加し続ける必要があるため、これまでの最大値を使う
+        percentage = Math.max(percentage, detail.progress);
+        lastNotifiedAt = Date.now();
+        void reportProgress(
+          percentage,
+          100,
+          `${detail.message} (${detail.elapsedSeconds}s elapsed)`
+        );
+        void notifyClient(level, detail);
+      };
+
+      // 完了後の最終処理などで通知が途絶えてもクライアントがタイムアウトしないよう、
+      // 一定時間通知がなければ割合を少しずつ進めて送る（100%には達しない）
+      const keepalive = setInterval(() => {
+        if (Date.now() - lastNotifiedAt < RESEARCH_KEEPALIVE_INTERVAL_MS) {
+          return;
+        }
+        const phase =
+          currentPhase === ResearchPhase.COMPLETED
+            ? ResearchPhase.POST_PROCESSING
+            : currentPhase;
+        forwardProgress(
           {
-            ...options,
-            // origin: "mcp-server", // Remove origin if not supported
-          } as DeepResearchParams, // Cast options
-          // Add callbacks if supported by the actual method
-          (activity: any) => {
-            const timestamp = new Date().toISOString();
-            // Determine the current phase based on activity message
-            let phase = ResearchPhase.SEARCH;
-            let isPhaseStart = false;
-            let isPhaseComplete = false;
-
-            // フェーズの開始を検出
-            if (
-              activity.message.includes("starting") ||
-              activity.message.includes("begin")
-            ) {
-              isPhaseStart = true;
-            }
-
-            // フェーズの完了を検出
-            if (
-              activity.message.includes("completed") ||
-              activity.message.includes("finished") ||
-              activity.message.includes("done") ||
-              (activity.progress && activity.progress >= 100)
-            ) {
-              isPhaseComplete = true;
-            }
-
-            // 特定のフェーズを検出
-            if (activity.message.includes("collecting")) {
-              phase = ResearchPhase.DATA_COLLECTION;
-            } else if (activity.message.includes("analyzing")) {
-              phase = ResearchPhase.ANALYSIS;
-            } else if (activity.message.includes("generating")) {
-              phase = ResearchPhase.REPORT;
-            }
-
-            // "Research activity completed"メッセージを検出
-            if (
-              activity.message.includes("completed") &&
-              !activity.message.includes("collecting") &&
-              !activity.message.includes("analyzing") &&
-              !activity.message.includes("generating")
-            ) {
-              phase = ResearchPhase.COMPLETED;
-              console.log(
-                `[${timestamp}] IMPORTANT: Research activity marked as completed, but post-processing is still ongoing. This may take additional time.`
-              );
-            }
-
-            // Create progress detail
-            const progress: ProgressDetail = {
-              phase,
-              progress: activity.progress || 0,
-              message: `${phase}: ${activity.message}`,
-              timestamp,
-            };
-
-            // フェーズの開始または完了時に詳細なログを出力
-            if (isPhaseStart) {
-              console.log(
-                `[${timestamp}] PHASE START: ${phase} has started. Elapsed time: ${((Date.now() - startTime) / 1000).toFixed(1)}s`
-              );
-            }
-
-            if (isPhaseComplete) {
-              console.log(
-                `[${timestamp}] PHASE COMPLETE: ${phase} has completed. Elapsed time: ${((Date.now() - startTime) / 1000).toFixed(1)}s`
-              );
-            }
-
-            // 通常の進捗ログ
-            console.log(
-              `[${timestamp}] Research progress: ${JSON.stringify(progress)}`
-            );
-
-            // 完了フェーズの場合、追加の情報を提供
-            if (phase === ResearchPhase.COMPLETED) {
-              console.log(
-                `[${timestamp}] POST-COMPLETION: Now processing final results. This may take several minutes depending on the amount of data collected.`
-              );
-              console.log(
-                `[${timestamp}] POST-COMPLETION: Total elapsed time so far: ${((Date.now() - startTime) / 1000).toFixed(1)}s`
-              );
-            }
+            phase,
+            progress:
+              Math.round((percentage + (99 - percentage) * 0.05) * 100) / 100,
+            message: `${phase}: still working`,
+            timestamp: new Date().toISOString(),
+            elapsedSeconds: Math.round((Date.now() - startedAt) / 1000),
           },
-          // eslint-disable-next-line @typescript-eslint/no-explicit-any
-          (source: any) => {
-            const timestamp = new Date().toISOString();
-            console.log(`[${timestamp}] Research source: ${source.url}`);
-          }
-        );
-
-        // 最終的な完了ログ
-        const endTime = Date.now();
-        const totalTime = ((endTime - startTime) / 1000).toFixed(1);
-        console.log(
-          `[${new Date().toISOString()}] FINAL COMPLETION: Deep research process fully completed. Total time: ${totalTime}s`
-        );
-
-        // レスポンスデータの詳細ログ
-        console.log(
-          `[${new Date().toISOString()}] RESPONSE_DEBUG: Received raw response from deepResearch API`
-        );
-        console.log(
-          `[${new Date().toISOString()}] RESPONSE_DEBUG: Response success status: ${response.success}`
-        );
-
-        // レスポンスデータの構造と大きさを確認
-        const responseDataKeys = Object.keys(response.data || {});
-        console.log(
-          `[${new Date().toISOString()}] RESPONSE_DEBUG: Response data keys: ${JSON.stringify(responseDataKeys)}`
-        );
-
-        // finalAnalysisの存在確認とサイズ確認
-        const hasFinalAnalysis =
-          response.data && "finalAnalysis" in response.data;
-        const finalAnalysisSize = hasFinalAnalysis
-          ? Buffer.from(String(response.data.finalAnalysis)).length
-          : 0;
-        console.log(
-          `[${new Date().toISOString()}] RESPONSE_DEBUG: Final analysis exists: ${hasFinalAnalysis}, Size: ${finalAnalysisSize} bytes`
+          "debug"
         );
+      }, RESEARCH_KEEPALIVE_INTERVAL_MS / 3);
+
+      // 新しく通知されたアクティビティを進捗として転送する
+      // Firecrawlのアクティビティに割合（progress）が含まれる場合はそれを使う
+      const handleActivity = (
+        activity: ResearchActivity & { progress?: number }
+      ) => {
+        collectedActivities.push(activity);
+        const timestamp = new Date().toISOString();
+        // Determine the current phase based on activity message
+        let phase = ResearchPhase.SEARCH;
+        let isPhaseStart = false;
+        let isPhaseComplete = false;
+
+        // フェーズの開始を検出
+        if (
+          activity.message.includes("starting") ||
+          activity.message.includes("begin")
+        ) {
+          isPhaseStart = true;
+        }
 
-        if (!response.success) {
-          console.log(
-            `[${new Date().toISOString()}] RESPONSE_ERROR: Research failed with error: ${response.error || "Unknown error"}`
-          );
-          throw new Error(response.error || "Deep research failed");
+        // フェーズの完了を検出
+        if (
+          activity.message.includes("completed") ||
+          activity.message.includes("finished") ||
+          activity.message.includes("done") ||
+          (activity.progress && activity.progress >= 100)
+        ) {
+          isPhaseComplete = true;
         }
 
-        console.log(
-          `[${new Date().toISOString()}] POST_PROCESSING: Formatting response data`
-        );
+        // 特定のフェーズを検出
+        if (activity.message.includes("collecting")) {
+          phase = ResearchPhase.DATA_COLLECTION;
+        } else if (activity.message.includes("analyzing")) {
+          phase = ResearchPhase.ANALYSIS;
+        } else if (activity.message.includes("generating")) {
+          phase = ResearchPhase.REPORT;
+        }
 
-        // データ整形前の詳細ログ
-        console.log(
-          `[${new Date().toISOString()}] RESPONSE_DEBUG: Starting to format final analysis data`
-        );
+        // "Research activity completed"メッセージを検出
+        if (
+          activity.message.includes("completed") &&
+          !activity.message.includes("collecting") &&
+          !activity.message.includes("analyzing") &&
+          !activity.message.includes("generating")
+        ) {
+          phase = ResearchPhase.COMPLETED;
+        }
 
-        const formattedResponse = {
-          finalAnalysis: response.data.finalAnalysis,
-          // activities: response.data.activities, // Include if needed
-          // sources: response.data.sources, // Include if needed
+        // Create progress detail
+        const progress: ProgressDetail = {
+          phase,
+          progress:
+            activity.progress ||
+            estimateResearchProgress(phase, activity.depth ?? 0, maxDepth),
+          message: `${phase}: ${activity.message}`,
+          timestamp,
+          elapsedSeconds: Math.round((Date.now() - startedAt) / 1000),
         };
+        currentPhase = phase;
 
-        // データ整形後の詳細ログ
-        console.log(
-          `[${new Date().toISOString()}] RESPONSE_DEBUG: Formatted response object created`
-        );
-
-        // 整形されたデータのサイズを確認
-        const formattedResponseSize = Buffer.from(
-          JSON.stringify(formattedResponse)
-        ).length;
-        console.log(
-          `[${new Date().toISOString()}] RESPONSE_DEBUG: Formatted response size: ${formattedResponseSize} bytes`
-        );
-
-        console.log(
-          `[${new Date().toISOString()}] POST_PROCESSING: Response formatting complete`
-        );
-
-        // 最終レスポンスオブジェクトのサイズを確認
-        const finalResponseSize = Buffer.from(
-          JSON.stringify({
-            content: [
-              {
-                type: "text",
-                text: formattedResponse.finalAnalysis,
-              },
-            ],
-            isError: false,
-          })
-        ).length;
-        console.log(
-          `[${new Date().toISOString()}] RESPONSE_DEBUG: Final response object size: ${finalResponseSize} bytes`
+        // フェーズの開始・完了はinfo、それ以外の進捗はdebugで出力
+        if (isPhaseStart || isPhaseComplete) {
+          logger.info(
+            `Research phase ${isPhaseStart ? "started" : "completed"}`,
+            { phase }
+          );
+        }
+        if (phase === ResearchPhase.COMPLETED) {
+          // 完了後も最終結果の処理に数分かかることがある
+          logger.info("Research activity completed, processing final results");
+        }
+        logger.debug("Research progress", { ...progress });
+        forwardProgress(progress);
+      };
+      const handleSource = (source: ResearchSource) => {
+        collectedSources.push(source);
+        logger.debug("Research source", { url: source.url });
+      };
+
+      let jobId: string | undefined;
+      try {
+        // キャンセル時にポーリングをやめられるよう、ジョブの開始と完了待ちを分けて行う
+        const { result: started, attempts } = await withRetry(
+          "deep research",
+          () =>
+            client.asyncDeepResearch(query, {
+              ...options,
+              // origin: "mcp-server", // Remove origin if not supported
+            } as DeepResearchParams) as Promise<AsyncJobResponse>,
+          // SDKが冪等性キーを渡せないため、応答が失われた場合の再試行でリサーチジョブを二重に開始しない
+          // （完了待ちのポーリングのみ再試行する）
+          { signal: extra.signal, maxAttempts: 1 }
         );
-
-        // 送信直前の詳細ログ
-        console.log(
-          `[${new Date().toISOString()}] RESPONSE_DEBUG: About to send response to client. Response type: object, isError: false`
+        jobId = startedJobId(started, "deep research");
+        const id = jobId;
+
+        // 状態にはそれまでの全件が含まれるため、前回から増えた分だけを処理する
+        let activityCount = 0;
+        let sourceCount = 0;
+        const response = await pollUntilDone<
+          DeepResearchStatusResponse | ErrorResponse
+        >(
+          "check deep research status",
+          () => client.checkDeepResearchStatus(id),
+          {
+            intervalMs: RESEARCH_POLL_INTERVAL_MS,
+            signal: extra.signal,
+            onStatus: (status) => {
+              if (!("activities" in status)) {
+                return;
+              }
+              const activities = status.activities ?? [];
+              activities.slice(activityCount).forEach(handleActivity);
+              activityCount = Math.max(activityCount, activities.length);
+              const sources = status.sources ?? [];
+              sources.slice(sourceCount).forEach(handleSource);
+              sourceCount = Math.max(sourceCount, sources.length);
+            },
+          }
         );
 
-        console.log(
-          `[${new Date().toISOString()}] COMPLETE: Returning final research results to client`
-        );
+        if (!("status" in response)) {
+          throw new Error(response.error || "Deep research failed");
+        }
+        if (response.status === "failed") {
+          throw new Error(
+            `Research job failed. Error: ${response.error || "Unknown error"}`
+          );
+        }
+        if (!response.success || response.status !== "completed") {
+          throw new Error(response.error || "Deep research failed");
+        }
 
-        // 送信試行ログ
-        console.log(
-          `[${new Date().toISOString()}] RESPONSE_DEBUG: Attempting to send response to client...`
+        creditMonitor.recordUsage(extractCreditsUsed(response));
+        forwardProgress({
+          phase: ResearchPhase.COMPLETED,
+          progress: 100,
+          message: `${ResearchPhase.COMPLETED}: research finished`,
+          timestamp: new Date().toISOString(),
+          elapsedSeconds: Math.round((Date.now() - startedAt) / 1000),
+        });
+
+        const finalAnalysis: string = response.data?.finalAnalysis ?? "";
+        // 最終結果の情報源を優先し、途中で通知されたものを後ろに加える（重複は formatResearchReport で除く）
+        const sources: ResearchSource[] = [
+          ...(response.data?.sources ?? response.sources ?? []),
+          ...collectedSources,
+        ];
+        const activities: ResearchActivity[] = collectedActivities.length
+          ? collectedActivities
+          : (response.data?.activities ?? response.activities ?? []);
+        const format = outputFormat ?? "markdown";
+        const report = formatResearchReport(
+          finalAnalysis,
+          sources,
+          activities,
+          {
+            includeSources: includeSources ?? false,
+            includeActivities: includeActivities ?? false,
+            format,
+          }
         );
 
-        // 送信完了ログ（returnの直前に配置）
-        console.log(
-          `[${new Date().toISOString()}] RESPONSE_DEBUG: Executing return statement`
-        );
+        logger.info("Deep research completed", {
+          finalAnalysisBytes: Buffer.byteLength(finalAnalysis),
+          sources: sources.length,
+          activities: activities.length,
+        });
 
-        // 直接オブジェクトを返す
         return {
           content: [
             {
               type: "text",
-              text: formattedResponse.finalAnalysis,
+              // JSONとして解析できるよう、json形式では再試行の情報を付けない
+              text:
+                format === "json"
+                  ? report
+                  : appendAttemptInfo(report, attempts),
             },
           ],
           isError: false,
         };
       } catch (error) {
+        if (extra.signal.aborted) {
+          logAbandonedJob("deep research", jobId);
+        }
         const errorMessage =
           error instanceof Error ? error.message : String(error);
         // Check if the error indicates the method doesn't exist
@@ -558,6 +721,8 @@ ${result.markdown ? `\nContent:\n${result.markdown}` : ""}`
           content: [{ type: "text", text: `Error: ${errorMessage}` }],
           isError: true,
         };
+      } finally {
+        clearInterval(keepalive);
       }
     }
   );
@@ -579,20 +744,41 @@ ${result.markdown ? `\nContent:\n${result.markdown}` : ""}`
     "firecrawl_generate_llmstxt",
     "Generate standardized LLMs.txt file for a given URL, which provides context about how LLMs should interact with the website.",
     GENERATE_LLMSTXT_TOOL_SCHEMA,
-    async (args: GenerateLLMsTextArgs) => {
+    async (args: GenerateLLMsTextArgs, extra: ToolExtra) => {
       const { url, ...params } = args;
+      let jobId: string | undefined;
       try {
-        // client.generateLLMsText might not exist or have different signature
-        // Assuming it exists and matches the schema for now
-        // Need to verify the actual method signature in firecrawl-js
-        // Using 'any' cast as a temporary workaround if the method is not typed
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        const response = await (client as any).generateLLMsText(url, {
-          ...params,
-          // origin: "mcp-server", // Remove origin if not supported
-        } as GenerateLLMsTextParams); // Cast options
+        // キャンセル時にポーリングをやめられるよう、ジョブの開始と完了待ちを分けて行う
+        const { result: started, attempts } = await withRetry(
+          "generate LLMs.txt",
+          () =>
+            client.asyncGenerateLLMsText(url, {
+              ...params,
+              // origin: "mcp-server", // Remove origin if not supported
+            } as GenerateLLMsTextParams) as Promise<AsyncJobResponse>, // Cast options
+          // deep research と同じく、冪等性キーを渡せないため開始は再試行しない
+          { signal: extra.signal, maxAttempts: 1 }
+        );
+        jobId = startedJobId(started, "LLMs.txt generation");
+        const id = jobId;
+
+        const response = await pollUntilDone<
+          GenerateLLMsTextStatusResponse | ErrorResponse
+        >(
+          "check LLMs.txt generation status",
+          () => client.checkGenerateLLMsTextStatus(id),
+          { intervalMs: LLMSTXT_POLL_INTERVAL_MS, signal: extra.signal }
+        );
 
-        if (!response.success) {
+        if (!("status" in response)) {
+          throw new Error(response.error || "LLMs.txt generation failed");
+        }
+        if (response.status === "failed") {
+          throw new Error(
+            `LLMs.txt generation job failed. Error: ${response.error || "Unknown error"}`
+          );
+        }
+        if (!response.success || response.status !== "completed") {
           throw new Error(response.error || "LLMs.txt generation failed");
         }
 
@@ -608,10 +794,15 @@ ${result.markdown ? `\nContent:\n${result.markdown}` : ""}`
         }
 
         return {
-          content: [{ type: "text", text: resultText }],
+          content: [
+            { type: "text", text: appendAttemptInfo(resultText, attempts) },
+          ],
           isError: false,
         };
       } catch (error) {
+        if (extra.signal.aborted) {
+          logAbandonedJob("LLMs.txt generation", jobId);
+        }
         const errorMessage =
           error instanceof Error ? error.message : String(error);
         // Check if the error indicates the method doesn't exist
@@ -0,0 +1,379 @@
+import express, { Express, Request, Response } from "express";
+import { randomUUID } from "node:crypto";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import type { McpServerFactory } from "../server.js";
+import {
+  getAuthClientId,
+  requireBearerAuth,
+  TokenAuthenticator,
+} from "../http/auth.js";
+import {
+  API_KEY_HEADER,
+  CredentialError,
+  CredentialResolver,
+} from "../http/credentials.js";
+import { createHealthRouter, ReadinessChecker } from "../http/health.js";
+import { createMetricsRouter } from "../http/metrics.js";
+import { activeSessions } from "../utils/metrics.js";
+import { logger } from "../utils/logger.js";
+
+/**
+ * HTTPトランスポートの設定
+ */
+export interface HttpAppOptions {
+  // 同時接続セッション数の上限（0以下の場合は無制限）
+  maxSessions: number;
+  // Bearerトークン認証（トークン未設定の場合は認証なし）
+  authenticator: TokenAuthenticator;
+  // セッションで使用するFirecrawlの認証情報の決定方法
+  resolveCredentials: CredentialResolver;
+  // /readyz の判定（シャットダウン中は新しいセッションも拒否する）
+  readiness: ReadinessChecker;
+}
+
+/**
+ * HTTPトランスポートのアプリケーションとセッション操作
+ */
+export interface HttpApp {
+  app: Express;
+  // 接続中のセッション数
+  getSessionCount: () => number;
+  // すべてのセッションのトランスポートを閉じる（シャットダウン時に使用）
+  closeAllSessions: () => Promise<void>;
+}
+
+/**
+ * SSE・Streamable HTTPエンドポイントを持つExpressアプリケーションを作成する
+ * @param createServer セッションごとにMCPサーバーを生成するファクトリ
+ * @param options HTTPトランスポートの設定
+ */
+export function createHttpApp(
+  createServer: McpServerFactory,
+  options: HttpAppOptions
+): HttpApp {
+  // --- Expressアプリケーションの設定 ---
+  const app = express();
+
+  // ヘルスチェックは認証なしで公開する（Dockerなどのプローブ用）
+  app.use(createHealthRouter(options.readiness));
+  app.use(createMetricsRouter());
+
+  // MCPエンドポイントはすべてBearerトークン認証を要求する
+  app.use(
+    ["/sse", "/messages", "/mcp"],
+    requireBearerAuth(options.authenticator)
+  );
+
+  // セッション管理のためのマップ
+  const transports: { [sessionId: string]: SSEServerTransport } = {};
+  // Streamable HTTPセッション管理のためのマップ
+  const streamableTransports: {
+    [sessionId: string]: StreamableHTTPServerTransport;
+  } = {};
+  // セッションを開いたトークン名（認証が無効な場合はundefined）
+  const sessionOwners: { [sessionId: string]: string | undefined } = {};
+
+  // 他のトークンで開かれたセッションへのアクセスを防ぐ
+  const isSessionOwner = (sessionId: string, req: Request): boolean =>
+    sessionOwners[sessionId] === getAuthClientId(req);
+
+  const rejectSessionOwner = (res: Response): void => {
+    res.status(403).json({
+      success: false,
+      error: { message: "Session was opened with a different token" },
+    });
+  };
+
+  // セッションのFirecrawl認証情報を決定し、なければエラーレスポンスを返す
+  const resolveCredentialsOrReject = (req: Request, res: Response) => {
+    let credentials;
+    try {
+      credentials = options.resolveCredentials(req);
+    } catch (error) {
+      if (!(error instanceof CredentialError)) {
+        throw error;
+      }
+      logger.warn("Rejected Firecrawl credentials from headers", {
+        reason: error.message,
+      });
+      res
+        .status(400)
+        .json({ success: false, error: { message: error.message } });
+      return undefined;
+    }
+    if (!credentials) {
+      res.status(400).json({
+        success: false,
+        error: {
+          message: `A Firecrawl API key is required (${API_KEY_HEADER} header)`,
+        },
+      });
+    }
+    return credentials;
+  };
+
+  // /metrics のセッション数をマップのサイズに合わせる
+  const updateSessionMetrics = (): void => {
+    activeSessions.set({ transport: "sse" }, Object.keys(transports).length);
+    activeSessions.set(
+      { transport: "streamable_http" },
+      Object.keys(streamableTransports).length
+    );
+  };
+  updateSessionMetrics();
+
+  const getSessionCount = (): number =>
+    Object.keys(transports).length + Object.keys(streamableTransports).length;
+
+  // SSE・Streamable HTTPを合わせたセッション数が上限に達しているか
+  const isSessionLimitReached = (): boolean =>
+    options.maxSessions > 0 && getSessionCount() >= options.maxSessions;
+
+  const rejectSessionLimit = (res: Response): void => {
+    logger.warn("Rejected session: session limit reached", {
+      maxSessions: options.maxSessions,
+    });
+    res.status(503).json({
+      success: false,
+      error: { message: "Too many active sessions. Please retry later." },
+    });
+  };
+
+  // シャットダウン中は新しいセッションを受け付けない
+  const rejectIfShuttingDown = (res: Response): boolean => {
+    if (!options.readiness.isShuttingDown) {
+      return false;
+    }
+    res.status(503).json({
+      success: false,
+      error: { message: "Server is shutting down" },
+    });
+    return true;
+  };
+
+  // --- SSEエンドポイント (/sse) ---
+  app.get("/sse", async (req: Request, res: Response) => {
+    if (rejectIfShuttingDown(res)) {
+      return;
+    }
+    if (isSessionLimitReached()) {
+      rejectSessionLimit(res);
+      return;
+    }
+    const credentials = resolveCredentialsOrReject(req, res);
+    if (!credentials) {
+      return;
+    }
+
+    try {
+      const transport = new SSEServerTransport("/messages", res);
+      // セッションごとに独立したサーバーを生成する
+      const server = createServer(credentials);
+      transports[transport.sessionId] = transport;
+      sessionOwners[transport.sessionId] = getAuthClientId(req);
+      updateSessionMetrics();
+
+      logger.info("SSE session opened", { sessionId: transport.sessionId });
+
+      res.on("close", () => {
+        logger.info("SSE session closed", { sessionId: transport.sessionId });
+        delete transports[transport.sessionId];
+        delete sessionOwners[transport.sessionId];
+        updateSessionMetrics();
+        // セッションのサーバーを閉じ、実行中のツール呼び出しを中断する（withToolMiddleware が signal を中断する）
+        server.close().catch((error: unknown) => {
+          logger.error("Failed to close SSE session", {
+            sessionId: transport.sessionId,
+            error,
+          });
+        });
+      });
+
+      await server.connect(transport);
+    } catch (error: unknown) {
+      logger.error("Failed to establish SSE connection", { error });
+      // レスポンスがまだ送信されていない場合のみエラーレスポンスを送信
+      if (!res.headersSent) {
+        res.status(500).json({
+          success: false,
+          error: { message: "Failed to establish SSE connection" },
+        });
+      }
+    }
+  });
+
+  // --- メッセージ受信エンドポイント (/messages) ---
+  app.post("/messages", async (req: Request, res: Response) => {
+    const sessionId = req.query.sessionId as string;
+    const transport = transports[sessionId];
+
+    if (transport) {
+      if (!isSessionOwner(sessionId, req)) {
+        rejectSessionOwner(res);
+        return;
+      }
+      try {
+        await transport.handlePostMessage(req, res);
+      } catch (error: unknown) {
+        logger.error("Failed to process message", { sessionId, error });
+        // レスポンスがまだ送信されていない場合のみエラーレスポンスを送信
+        if (!res.headersSent) {
+          res.status(500).json({
+            success: false,
+            error: { message: "Error processing message" },
+          });
+        }
+      }
+    } else {
+      res.status(400).json({
+        success: false,
+        error: { message: "No transport found for sessionId" },
+      });
+    }
+  });
+
+  // --- Streamable HTTPエンドポイント (/mcp) ---
+  // POST: クライアントからのJSON-RPCメッセージ（初回はinitializeでセッションを作成）
+  app.post("/mcp", express.json(), async (req: Request, res: Response) => {
+    const sessionId = req.headers["mcp-session-id"] as string | undefined;
+
+    try {
+      let transport: StreamableHTTPServerTransport;
+
+      if (sessionId && streamableTransports[sessionId]) {
+        if (!isSessionOwner(sessionId, req)) {
+          rejectSessionOwner(res);
+          return;
+        }
+        transport = streamableTransports[sessionId];
+      } else if (sessionId) {
+        // 不明なセッションIDは404を返し、クライアントに再初期化を促す
+        res.status(404).json({
+          success: false,
+          error: { message: "Session not found" },
+        });
+        return;
+      } else if (isInitializeRequest(req.body)) {
+        if (rejectIfShuttingDown(res)) {
+          return;
+        }
+        if (isSessionLimitReached()) {
+          rejectSessionLimit(res);
+          return;
+        }
+        const credentials = resolveCredentialsOrReject(req, res);
+        if (!credentials) {
+          return;
+        }
+
+        transport = new StreamableHTTPServerTransport({
+          sessionIdGenerator: () => randomUUID(),
+          onsessioninitialized: (newSessionId) => {
+            streamableTransports[newSessionId] = transport;
+            sessionOwners[newSessionId] = getAuthClientId(req);
+            updateSessionMetrics();
+            logger.info("Streamable HTTP session opened", {
+              sessionId: newSessionId,
+            });
+          },
+        });
+
+        // トランスポートが閉じるとサーバー側のプロトコル状態も解放される
+        transport.onclose = () => {
+          if (transport.sessionId) {
+            logger.info("Streamable HTTP session closed", {
+              sessionId: transport.sessionId,
+            });
+            delete streamableTransports[transport.sessionId];
+            delete sessionOwners[transport.sessionId];
+            updateSessionMetrics();
+          }
+        };
+
+        // セッションごとに独立したサーバーを生成する
+        await createServer(credentials).connect(transport);
+      } else {
+        res.status(400).json({
+          success: false,
+          error: { message: "No valid Mcp-Session-Id header provided" },
+        });
+        return;
+      }
+
+      await transport.handleRequest(req, res, req.body);
+    } catch (error: unknown) {
+      logger.error("Failed to process Streamable HTTP request", {
+        sessionId,
+        error,
+      });
+      if (!res.headersSent) {
+        res.status(500).json({
+          success: false,
+          error: { message: "Error processing MCP request" },
+        });
+      }
+    }
+  });
+
+  // GET: サーバーからの通知用SSEストリーム / DELETE: セッション終了
+  const handleStreamableSessionRequest = async (
+    req: Request,
+    res: Response
+  ) => {
+    const sessionId = req.headers["mcp-session-id"] as string | undefined;
+    if (!sessionId) {
+      res.status(400).json({
+        success: false,
+        error: { message: "Missing Mcp-Session-Id header" },
+      });
+      return;
+    }
+
+    const transport = streamableTransports[sessionId];
+    if (!transport) {
+      res.status(404).json({
+        success: false,
+        error: { message: "Session not found" },
+      });
+      return;
+    }
+    if (!isSessionOwner(sessionId, req)) {
+      rejectSessionOwner(res);
+      return;
+    }
+
+    try {
+      await transport.handleRequest(req, res);
+    } catch (error: unknown) {
+      logger.error("Failed to process Streamable HTTP session request", {
+        sessionId,
+        error,
+      });
+      if (!res.headersSent) {
+        res.status(500).json({
+          success: false,
+          error: { message: "Error processing MCP session request" },
+        });
+      }
+    }
+  };
+
+  app.get("/mcp", handleStreamableSessionRequest);
+  app.delete("/mcp", handleStreamableSessionRequest);
+
+  const closeAllSessions = async (): Promise<void> => {
+    const closing = [
+      ...Object.values(transports),
+      ...Object.values(streamableTransports),
+    ].map((transport) =>
+      transport.close().catch((error: unknown) => {
+        logger.error("Failed to close session", { error });
+      })
+    );
+    await Promise.all(closing);
+  };
+
+  return { app, getSessionCount, closeAllSessions };
+}
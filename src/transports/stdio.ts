@@ -0,0 +1,30 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { configureLogger, logger } from "../utils/logger.js";
+
+/**
+ * ロガーと console.log / console.info / console.debug の出力を標準エラー出力に切り替える
+ * stdioモードでは標準出力がプロトコルのストリームになるため、診断ログで汚さないようにする
+ * （console の切り替えは依存ライブラリの出力向け）
+ */
+export function redirectConsoleToStderr(): void {
+  configureLogger({ stream: "stderr" });
+  console.log = (...args: unknown[]) => console.error(...args);
+  console.info = (...args: unknown[]) => console.error(...args);
+  console.debug = (...args: unknown[]) => console.error(...args);
+}
+
+/**
+ * MCPサーバーを標準入出力トランスポートに接続する
+ * @param server MCPサーバーインスタンス
+ */
+export async function startStdioServer(server: McpServer): Promise<void> {
+  const transport = new StdioServerTransport();
+
+  transport.onclose = () => {
+    logger.info("stdio connection closed");
+  };
+
+  await server.connect(transport);
+  logger.info("Firecrawl MCP Server running on stdio");
+}
@@ -0,0 +1,331 @@
+import FirecrawlApp from "@mendable/firecrawl-js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import type { ToolMiddleware } from "../tools/middleware.js";
+import { readNumberEnv, readOptionalNumberEnv } from "./env.js";
+import { logger } from "./logger.js";
+import { recordCreditsUsed } from "./metrics.js";
+
+/**
+ * クレジット監視の設定
+ */
+export interface CreditMonitorConfig {
+  warningThreshold?: number;
+  criticalThreshold?: number;
+  checkInterval: number; // ミリ秒
+}
+
+/**
+ * 残りクレジットの状態
+ * - unknown: まだ取得できていない（自己ホスト型などでAPIが存在しない場合も含む）
+ */
+export type CreditLevel = "ok" | "warning" | "critical" | "unknown";
+
+// クリティカル閾値を下回った場合に実行を拒否するツール
+export const EXPENSIVE_TOOLS = new Set([
+  "firecrawl_crawl",
+  "firecrawl_batch_scrape",
+  "firecrawl_deep_research",
+]);
+
+// 高コストツールで閾値チェックを無視するための引数名
+export const CREDIT_OVERRIDE_ARG = "ignoreCreditLimit";
+
+// 高コストツールのスキーマに追加する上書き引数
+export const CREDIT_OVERRIDE_SCHEMA = z
+  .boolean()
+  .optional()
+  .describe(
+    "Run even if remaining Firecrawl credits are below the critical threshold"
+  );
+
+const DEFAULT_CHECK_INTERVAL = 5 * 60 * 1000;
+
+// 保持するモニター数の上限（超えた場合は、接続中のセッションがないものを古い順に削除する）
+const MAX_MONITORS = 100;
+// 累計使用量を覚えておくジョブ数の上限（超えた場合は最も古く更新したものから削除する）
+const MAX_TRACKED_JOBS = 1000;
+
+/**
+ * 環境変数からクレジット監視設定を読み込む
+ */
+export function getCreditMonitorConfig(): CreditMonitorConfig {
+  return {
+    warningThreshold: readOptionalNumberEnv(
+      "FIRECRAWL_CREDIT_WARNING_THRESHOLD"
+    ),
+    criticalThreshold: readOptionalNumberEnv(
+      "FIRECRAWL_CREDIT_CRITICAL_THRESHOLD"
+    ),
+    checkInterval: readNumberEnv(
+      "FIRECRAWL_CREDIT_CHECK_INTERVAL",
+      DEFAULT_CHECK_INTERVAL
+    ),
+  };
+}
+
+/**
+ * レスポンスから creditsUsed を取り出す（型定義にない場合も考慮）
+ */
+export function extractCreditsUsed(response: unknown): number | undefined {
+  if (response && typeof response === "object" && "creditsUsed" in response) {
+    const value = (response as { creditsUsed?: unknown }).creditsUsed;
+    return typeof value === "number" && Number.isFinite(value)
+      ? value
+      : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Firecrawlアカウントのクレジット使用量を監視する
+ */
+export class CreditMonitor {
+  private remaining?: number;
+  private lastCheckedAt?: Date;
+  private usedSinceCheck = 0;
+  private totalUsed = 0;
+  // ジョブごとの累計使用量（ステータス確認のたびに二重計上しないため）
+  private readonly jobUsage = new Map<string, number>();
+  private timer?: NodeJS.Timeout;
+  // このモニターを使っている接続中のセッション数
+  private sessions = 0;
+
+  constructor(
+    private readonly client: FirecrawlApp,
+    private readonly config: CreditMonitorConfig = getCreditMonitorConfig()
+  ) {}
+
+  /**
+   * 閾値が設定されている場合のみ監視を有効にする
+   */
+  get enabled(): boolean {
+    return (
+      this.config.warningThreshold !== undefined ||
+      this.config.criticalThreshold !== undefined
+    );
+  }
+
+  /**
+   * 定期的な残りクレジットの確認を開始する
+   */
+  start(): void {
+    if (!this.enabled || this.timer) {
+      return;
+    }
+    void this.refresh();
+    this.timer = setInterval(
+      () => void this.refresh(),
+      this.config.checkInterval
+    );
+    // 監視タイマーのせいでプロセスが終了できなくならないようにする
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * モニターを使うセッションを登録し、監視を開始する
+   * @returns セッション終了時に呼ぶ関数（最後のセッションが終了すると監視を止める）
+   */
+  retain(): () => void {
+    this.sessions += 1;
+    this.start();
+    let released = false;
+    return () => {
+      if (released) {
+        return;
+      }
+      released = true;
+      this.sessions -= 1;
+      if (this.sessions === 0) {
+        this.stop();
+      }
+    };
+  }
+
+  // 接続中のセッションがない（削除してよい）
+  get idle(): boolean {
+    return this.sessions === 0;
+  }
+
+  /**
+   * Firecrawl APIから残りクレジットを取得する
+   * @returns 残りクレジット（取得できなかった場合はundefined）
+   */
+  async refresh(): Promise<number | undefined> {
+    try {
+      const response = await this.client.getRequest(
+        `${this.client.apiUrl}/v1/team/credit-usage`,
+        this.client.prepareHeaders()
+      );
+      const remaining = response.data?.data?.remaining_credits;
+      if (response.status !== 200 || typeof remaining !== "number") {
+        throw new Error(`Unexpected response (status: ${response.status})`);
+      }
+      this.remaining = remaining;
+      this.lastCheckedAt = new Date();
+      this.usedSinceCheck = 0;
+      return remaining;
+    } catch (error) {
+      logger.warn("Failed to check Firecrawl credit usage", { error });
+      return undefined;
+    }
+  }
+
+  /**
+   * 使用したクレジットを記録する
+   * @param credits 使用クレジット数
+   * @param jobId ジョブID（指定時は累計値として扱い、前回からの差分のみ加算する）
+   */
+  recordUsage(credits: number | undefined, jobId?: string): void {
+    if (credits === undefined || credits <= 0) {
+      return;
+    }
+    let delta = credits;
+    if (jobId) {
+      const previous = this.jobUsage.get(jobId) ?? 0;
+      delta = Math.max(0, credits - previous);
+      // 末尾に移し、最近更新したジョブとして扱う
+      this.jobUsage.delete(jobId);
+      this.jobUsage.set(jobId, Math.max(previous, credits));
+      for (const key of this.jobUsage.keys()) {
+        if (this.jobUsage.size <= MAX_TRACKED_JOBS) {
+          break;
+        }
+        this.jobUsage.delete(key);
+      }
+    }
+    this.usedSinceCheck += delta;
+    this.totalUsed += delta;
+    if (delta > 0) {
+      recordCreditsUsed(delta);
+    }
+  }
+
+  /**
+   * 最後の確認以降の使用量を差し引いた残りクレジットの推定値
+   */
+  getEstimatedRemaining(): number | undefined {
+    return this.remaining === undefined
+      ? undefined
+      : this.remaining - this.usedSinceCheck;
+  }
+
+  getTotalUsed(): number {
+    return this.totalUsed;
+  }
+
+  getLevel(): CreditLevel {
+    const remaining = this.getEstimatedRemaining();
+    if (remaining === undefined) {
+      return "unknown";
+    }
+    const { warningThreshold, criticalThreshold } = this.config;
+    if (criticalThreshold !== undefined && remaining <= criticalThreshold) {
+      return "critical";
+    }
+    if (warningThreshold !== undefined && remaining <= warningThreshold) {
+      return "warning";
+    }
+    return "ok";
+  }
+
+  /**
+   * 閾値を下回っている場合の警告メッセージ
+   */
+  getWarning(): string | undefined {
+    const level = this.getLevel();
+    const remaining = this.getEstimatedRemaining();
+    if (level === "critical") {
+      return `Critical: Firecrawl credits are nearly exhausted (remaining: ~${remaining}, critical threshold: ${this.config.criticalThreshold}). Expensive tools (${[...EXPENSIVE_TOOLS].join(", ")}) are disabled unless ${CREDIT_OVERRIDE_ARG} is set.`;
+    }
+    if (level === "warning") {
+      return `Warning: Firecrawl credits are running low (remaining: ~${remaining}, warning threshold: ${this.config.warningThreshold}).`;
+    }
+    return undefined;
+  }
+
+  getLastCheckedAt(): Date | undefined {
+    return this.lastCheckedAt;
+  }
+}
+
+// APIキー・URLごとのモニター（同じアカウントのクレジットを共有するため）
+const monitors = new Map<string, CreditMonitor>();
+
+/**
+ * APIキー・URLに対応するクレジットモニターを取得する（なければ作成する）
+ * 監視はセッションが retain() している間のみ行う
+ * @param apiKey Firecrawl API Key
+ * @param apiUrl Firecrawl API URL（オプション）
+ */
+export function getCreditMonitor(
+  apiKey: string,
+  apiUrl?: string
+): CreditMonitor {
+  const key = `${apiUrl ?? ""}::${apiKey}`;
+  let monitor = monitors.get(key);
+  if (monitor) {
+    // 末尾に移し、最近使ったモニターとして扱う
+    monitors.delete(key);
+  } else {
+    monitor = new CreditMonitor(
+      new FirecrawlApp({ apiKey, ...(apiUrl ? { apiUrl } : {}) })
+    );
+  }
+  monitors.set(key, monitor);
+  for (const [oldKey, oldMonitor] of monitors) {
+    if (monitors.size <= MAX_MONITORS) {
+      break;
+    }
+    if (oldMonitor.idle && oldMonitor !== monitor) {
+      monitors.delete(oldKey);
+    }
+  }
+  return monitor;
+}
+
+/**
+ * クレジット監視ミドルウェア
+ * - クリティカル閾値を下回っている場合、高コストツールの実行を拒否する
+ * - 警告閾値を下回っている場合、ツール結果に警告を付記する
+ */
+export function creditMiddleware(monitor: CreditMonitor): ToolMiddleware {
+  return async ({ toolName, args }, next) => {
+    if (
+      EXPENSIVE_TOOLS.has(toolName) &&
+      monitor.getLevel() === "critical" &&
+      args[CREDIT_OVERRIDE_ARG] !== true
+    ) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error: Refusing to run ${toolName}: remaining Firecrawl credits (~${monitor.getEstimatedRemaining()}) are below the critical threshold. Set ${CREDIT_OVERRIDE_ARG}: true to run anyway.`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    // 上書き引数はFirecrawl APIに渡さないよう、ハンドラーに届く前に取り除く
+    delete args[CREDIT_OVERRIDE_ARG];
+
+    const result = await next();
+
+    const warning = monitor.getWarning();
+    if (!warning) {
+      return result;
+    }
+    return {
+      ...result,
+      content: [...result.content, { type: "text", text: warning }],
+    } as CallToolResult;
+  };
+}
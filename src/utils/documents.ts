@@ -0,0 +1,164 @@
+import type { FirecrawlDocument } from "@mendable/firecrawl-js";
+import { z } from "zod";
+
+/**
+ * 結果取得ツールで選択できる出力形式
+ */
+export const DOCUMENT_FORMATS = [
+  "markdown",
+  "html",
+  "links",
+  "metadata",
+] as const;
+export type DocumentFormat = (typeof DOCUMENT_FORMATS)[number];
+
+export const DOCUMENT_FORMATS_SCHEMA = z
+  .array(z.enum(DOCUMENT_FORMATS))
+  .optional()
+  .describe(
+    "Parts of each document to include (default: markdown). Options: markdown, html, links, metadata"
+  );
+
+// 1ページあたりの文字数上限のデフォルト（クライアントのコンテキストを圧迫しないため）
+export const DEFAULT_MAX_CHARACTERS = 50000;
+
+export const MAX_CHARACTERS_SCHEMA = z
+  .number()
+  .int()
+  .positive()
+  .optional()
+  .describe(
+    `Character budget for this page of results (default: ${DEFAULT_MAX_CHARACTERS}). Documents beyond the budget are left for the next page`
+  );
+
+/**
+ * 文書のページ分割の設定
+ */
+export interface DocumentPageOptions {
+  // 最初の文書の通し番号（0始まり）
+  offset: number;
+  formats: DocumentFormat[];
+  maxCharacters: number;
+  // 文書ごとに表示する通し番号（絞り込みなどで連番にならない場合に指定する）
+  indexes?: number[];
+}
+
+/**
+ * 文書のページ分割の結果
+ */
+export interface DocumentPage {
+  text: string;
+  // 出力した文書数
+  count: number;
+  // 次のページの開始位置（最後まで出力した場合はundefined）
+  nextOffset?: number;
+  // 文字数上限のため途中で切り詰めた文書があるか
+  truncated: boolean;
+}
+
+function documentUrl(doc: FirecrawlDocument<unknown>): string {
+  return doc.metadata?.sourceURL || doc.url || "Unknown URL";
+}
+
+/**
+ * 1件の文書を指定された形式のテキストにする
+ * @param doc 文書
+ * @param index 通し番号（0始まり）
+ * @param formats 出力する形式
+ */
+export function formatDocument(
+  doc: FirecrawlDocument<unknown>,
+  index: number,
+  formats: DocumentFormat[]
+): string {
+  const parts = [`### [${index}] ${documentUrl(doc)}`];
+  if (doc.metadata?.title) {
+    parts.push(`Title: ${doc.metadata.title}`);
+  }
+  if (doc.metadata?.error) {
+    parts.push(`Error: ${doc.metadata.error}`);
+  }
+  if (formats.includes("markdown")) {
+    parts.push(`#### Markdown\n\n${doc.markdown ?? "(not available)"}`);
+  }
+  if (formats.includes("html")) {
+    parts.push(`#### HTML\n\n${doc.html ?? doc.rawHtml ?? "(not available)"}`);
+  }
+  if (formats.includes("links")) {
+    parts.push(
+      `#### Links\n\n${doc.links?.length ? doc.links.map((link) => `- ${link}`).join("\n") : "(not available)"}`
+    );
+  }
+  if (formats.includes("metadata")) {
+    parts.push(
+      `#### Metadata\n\n${JSON.stringify(doc.metadata ?? {}, null, 2)}`
+    );
+  }
+  return parts.join("\n\n");
+}
+
+/**
+ * 文字数上限に収まる範囲で、offset から順に文書をテキストにする
+ * 上限を超える文書は次のページに回す。ただし先頭の文書が単独で上限を超える場合は切り詰めて出力する
+ * @param docs 全文書
+ * @param options ページ分割の設定
+ */
+export function formatDocumentPage(
+  docs: FirecrawlDocument<unknown>[],
+  { offset, formats, maxCharacters, indexes }: DocumentPageOptions
+): DocumentPage {
+  const blocks: string[] = [];
+  let used = 0;
+  let truncated = false;
+  let index = offset;
+
+  for (; index < docs.length; index++) {
+    const block = formatDocument(
+      docs[index],
+      indexes?.[index] ?? index,
+      formats
+    );
+    if (used + block.length <= maxCharacters) {
+      blocks.push(block);
+      used += block.length;
+      continue;
+    }
+    if (blocks.length === 0) {
+      const omitted = block.length - maxCharacters;
+      blocks.push(
+        `${block.slice(0, maxCharacters)}\n\n(truncated: ${omitted} more characters; raise maxCharacters to read the whole document)`
+      );
+      truncated = true;
+      index++;
+    }
+    break;
+  }
+
+  return {
+    text: blocks.join("\n\n---\n\n"),
+    count: blocks.length,
+    nextOffset: index < docs.length ? index : undefined,
+    truncated,
+  };
+}
+
+/**
+ * 続きを取得するためのトークンを作成する（クライアントには不透明な文字列として渡す）
+ * @param value トークンに含める位置情報
+ */
+export function encodeContinuationToken(value: object): string {
+  return Buffer.from(JSON.stringify(value)).toString("base64url");
+}
+
+/**
+ * encodeContinuationToken で作成したトークンを復元する
+ * @param token トークン
+ * @throws 形式が不正な場合
+ */
+export function decodeContinuationToken(token: string): unknown {
+  try {
+    return JSON.parse(Buffer.from(token, "base64url").toString("utf8"));
+  } catch {
+    throw new Error("Invalid continuation token");
+  }
+}
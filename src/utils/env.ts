@@ -0,0 +1,18 @@
+/**
+ * 数値の環境変数を読み込む（未設定・不正値の場合はフォールバック値）
+ */
+export function readNumberEnv(name: string, fallback: number): number {
+  return readOptionalNumberEnv(name) ?? fallback;
+}
+
+/**
+ * 数値の環境変数を読み込む（未設定・不正値の場合はundefined）
+ */
+export function readOptionalNumberEnv(name: string): number | undefined {
+  const raw = process.env[name];
+  if (raw === undefined || raw === "") {
+    return undefined;
+  }
+  const value = Number(raw);
+  return Number.isFinite(value) && value >= 0 ? value : undefined;
+}
@@ -0,0 +1,51 @@
+import type { ToolMiddleware } from "../tools/middleware.js";
+
+/**
+ * 実行中の処理を数え、すべて完了するまで待てるようにする
+ * グレースフルシャットダウンで実行中のツール呼び出しを待つために使う
+ */
+export class InFlightTracker {
+  private active = 0;
+  private waiters: (() => void)[] = [];
+
+  get count(): number {
+    return this.active;
+  }
+
+  /**
+   * 処理の開始から完了（成功・失敗を問わない）までを追跡する
+   */
+  async track<T>(operation: () => Promise<T>): Promise<T> {
+    this.active++;
+    try {
+      return await operation();
+    } finally {
+      this.active--;
+      if (this.active === 0) {
+        const waiters = this.waiters;
+        this.waiters = [];
+        waiters.forEach((resolve) => resolve());
+      }
+    }
+  }
+
+  /**
+   * 実行中の処理がなくなるまで待つ
+   */
+  onIdle(): Promise<void> {
+    if (this.active === 0) {
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => this.waiters.push(resolve));
+  }
+}
+
+// 全セッション共通の実行中ツール呼び出し
+export const inFlightToolCalls = new InFlightTracker();
+
+/**
+ * 実行中のツール呼び出しを追跡するミドルウェア
+ */
+export function inFlightMiddleware(tracker: InFlightTracker): ToolMiddleware {
+  return (_context, next) => tracker.track(next);
+}
@@ -0,0 +1,185 @@
+import {
+  getCurrentToolCall,
+  type ToolMiddleware,
+} from "../tools/middleware.js";
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+export type LogFormat = "json" | "pretty";
+export type LogFields = Record<string, unknown>;
+
+/**
+ * ロガーの設定
+ */
+export interface LoggerConfig {
+  level: LogLevel;
+  format: LogFormat;
+  // "stderr" の場合はすべてのレベルを標準エラー出力に書き出す（stdioモード用）
+  stream: "stdout" | "stderr";
+}
+
+const LEVEL_ORDER: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+};
+
+function isLogLevel(value: string): value is LogLevel {
+  return value in LEVEL_ORDER;
+}
+
+/**
+ * 環境変数からロガーの設定を取得する
+ * - FIRECRAWL_LOG_LEVEL: debug / info / warn / error（デフォルト: info）
+ * - FIRECRAWL_LOG_FORMAT: json / pretty（デフォルト: pretty）
+ */
+export function getLoggerConfig(): LoggerConfig {
+  const level = (process.env.FIRECRAWL_LOG_LEVEL || "info").toLowerCase();
+  const format = (process.env.FIRECRAWL_LOG_FORMAT || "pretty").toLowerCase();
+  return {
+    level: isLogLevel(level) ? level : "info",
+    format: format === "json" ? "json" : "pretty",
+    stream: "stdout",
+  };
+}
+
+// dotenv の読み込み後に環境変数を参照するため、最初の出力時に設定を確定する
+let config: LoggerConfig | undefined;
+let overrides: Partial<LoggerConfig> = {};
+
+function currentConfig(): LoggerConfig {
+  if (!config) {
+    config = { ...getLoggerConfig(), ...overrides };
+  }
+  return config;
+}
+
+/**
+ * ロガーの設定を上書きする（stdioモードで出力先を標準エラー出力にする場合など）
+ */
+export function configureLogger(options: Partial<LoggerConfig>): void {
+  overrides = { ...overrides, ...options };
+  config = undefined;
+}
+
+/**
+ * 実行中のツール呼び出しから自動的に付与するフィールド
+ */
+function contextFields(): LogFields {
+  const call = getCurrentToolCall();
+  if (!call) {
+    return {};
+  }
+  return {
+    tool: call.toolName,
+    callId: call.callId,
+    ...(call.extra.sessionId ? { sessionId: call.extra.sessionId } : {}),
+    elapsedMs: Date.now() - call.startedAt,
+  };
+}
+
+// Errorはそのままでは JSON.stringify で空になるため、メッセージ（errorレベルではスタックも）に変換する
+function normalizeFields(level: LogLevel, fields: LogFields): LogFields {
+  const normalized: LogFields = {};
+  for (const [key, value] of Object.entries(fields)) {
+    if (value instanceof Error) {
+      normalized[key] = value.message;
+      if (level === "error" && value.stack) {
+        normalized.stack = value.stack;
+      }
+    } else if (value !== undefined) {
+      normalized[key] = value;
+    }
+  }
+  return normalized;
+}
+
+function formatValue(value: unknown): string {
+  if (typeof value === "string") {
+    return /[\s"=]/.test(value) ? JSON.stringify(value) : value;
+  }
+  return JSON.stringify(value);
+}
+
+function write(level: LogLevel, message: string, fields: LogFields = {}) {
+  const { level: minLevel, format, stream } = currentConfig();
+  if (LEVEL_ORDER[level] < LEVEL_ORDER[minLevel]) {
+    return;
+  }
+
+  const time = new Date().toISOString();
+  const { stack, ...rest } = normalizeFields(level, {
+    ...contextFields(),
+    ...fields,
+  });
+
+  let line: string;
+  if (format === "json") {
+    line = JSON.stringify({ time, level, msg: message, ...rest, stack });
+  } else {
+    const pairs = Object.entries(rest)
+      .map(([key, value]) => `${key}=${formatValue(value)}`)
+      .join(" ");
+    line = `${time} ${level.toUpperCase().padEnd(5)} ${message}${pairs ? ` ${pairs}` : ""}`;
+    if (typeof stack === "string") {
+      line += `\n${stack}`;
+    }
+  }
+
+  const output =
+    stream === "stderr" || LEVEL_ORDER[level] >= LEVEL_ORDER.warn
+      ? process.stderr
+      : process.stdout;
+  output.write(`${line}\n`);
+}
+
+/**
+ * アプリケーション共通のロガー
+ * ツール呼び出し中の出力には tool / callId / sessionId / elapsedMs が自動で付与される
+ */
+export const logger = {
+  debug: (message: string, fields?: LogFields) =>
+    write("debug", message, fields),
+  info: (message: string, fields?: LogFields) => write("info", message, fields),
+  warn: (message: string, fields?: LogFields) => write("warn", message, fields),
+  error: (message: string, fields?: LogFields) =>
+    write("error", message, fields),
+};
+
+/**
+ * ツール呼び出しの開始・終了（所要時間つき）を記録するミドルウェア
+ */
+export function loggingMiddleware(): ToolMiddleware {
+  return async ({ args, startedAt, extra }, next) => {
+    logger.debug("Tool call started", { args: Object.keys(args) });
+    try {
+      const result = await next();
+      const durationMs = Date.now() - startedAt;
+      // キャンセルされた呼び出しの結果はクライアントに返らないため、失敗としては扱わない
+      if (extra.signal.aborted) {
+        logger.info("Tool call cancelled", {
+          durationMs,
+          reason: extra.signal.reason,
+        });
+      } else if (result.isError) {
+        logger.warn("Tool call returned an error", { durationMs });
+      } else {
+        logger.info("Tool call completed", { durationMs });
+      }
+      return result;
+    } catch (error) {
+      if (extra.signal.aborted) {
+        logger.info("Tool call cancelled", {
+          durationMs: Date.now() - startedAt,
+          reason: extra.signal.reason,
+        });
+        throw error;
+      }
+      logger.error("Tool call failed", {
+        durationMs: Date.now() - startedAt,
+        error,
+      });
+      throw error;
+    }
+  };
+}
@@ -0,0 +1,160 @@
+import {
+  collectDefaultMetrics,
+  Counter,
+  Gauge,
+  Histogram,
+  Registry,
+} from "prom-client";
+import {
+  getCurrentToolCall,
+  type ToolMiddleware,
+} from "../tools/middleware.js";
+
+const PREFIX = "firecrawl_mcp_";
+
+/**
+ * /metrics で公開するメトリクスのレジストリ
+ */
+export const metricsRegistry = new Registry();
+collectDefaultMetrics({ register: metricsRegistry, prefix: PREFIX });
+
+const toolCalls = new Counter({
+  name: `${PREFIX}tool_calls_total`,
+  help: "Number of tool calls",
+  labelNames: ["tool"] as const,
+  registers: [metricsRegistry],
+});
+
+const toolErrors = new Counter({
+  name: `${PREFIX}tool_errors_total`,
+  help: "Number of tool calls that returned an error or threw",
+  labelNames: ["tool"] as const,
+  registers: [metricsRegistry],
+});
+
+const toolDuration = new Histogram({
+  name: `${PREFIX}tool_duration_seconds`,
+  help: "Tool call latency in seconds",
+  labelNames: ["tool"] as const,
+  buckets: [0.1, 0.5, 1, 2.5, 5, 10, 30, 60, 120, 300],
+  registers: [metricsRegistry],
+});
+
+const retries = new Counter({
+  name: `${PREFIX}retries_total`,
+  help: "Number of retried Firecrawl API calls",
+  labelNames: ["tool", "kind"] as const,
+  registers: [metricsRegistry],
+});
+
+const creditsUsed = new Counter({
+  name: `${PREFIX}credits_used_total`,
+  help: "Firecrawl credits consumed, as reported by API responses",
+  labelNames: ["tool"] as const,
+  registers: [metricsRegistry],
+});
+
+const cacheLookups = new Counter({
+  name: `${PREFIX}cache_lookups_total`,
+  help: "Number of response cache lookups by result (hit, miss or bypass)",
+  labelNames: ["tool", "result"] as const,
+  registers: [metricsRegistry],
+});
+
+const rateLimited = new Counter({
+  name: `${PREFIX}rate_limited_total`,
+  help: "Number of tool calls rejected by the rate limiter",
+  labelNames: ["tool", "scope"] as const,
+  registers: [metricsRegistry],
+});
+
+const outputTruncated = new Counter({
+  name: `${PREFIX}output_truncated_total`,
+  help: "Number of tool results truncated to the output budget",
+  labelNames: ["tool"] as const,
+  registers: [metricsRegistry],
+});
+
+/**
+ * トランスポート別の接続中セッション数
+ */
+export const activeSessions = new Gauge({
+  name: `${PREFIX}active_sessions`,
+  help: "Number of open MCP sessions",
+  labelNames: ["transport"] as const,
+  registers: [metricsRegistry],
+});
+
+/**
+ * バッチ処理キューの待機中・実行中の操作数
+ */
+export const batchQueueDepth = new Gauge({
+  name: `${PREFIX}batch_queue_depth`,
+  help: "Number of batch scrape operations waiting or running in the queue",
+  registers: [metricsRegistry],
+});
+
+// ツール呼び出しの外側（起動時の処理など）で記録された場合のラベル
+function currentToolLabel(): string {
+  return getCurrentToolCall()?.toolName ?? "none";
+}
+
+/**
+ * 再試行を記録する（実行中のツール名をラベルにする）
+ * @param kind 再試行の原因となったエラーの種類
+ */
+export function recordRetry(kind: string): void {
+  retries.inc({ tool: currentToolLabel(), kind });
+}
+
+/**
+ * 使用クレジットを記録する（実行中のツール名をラベルにする）
+ */
+export function recordCreditsUsed(credits: number): void {
+  creditsUsed.inc({ tool: currentToolLabel() }, credits);
+}
+
+/**
+ * キャッシュの参照結果を記録する（実行中のツール名をラベルにする）
+ * @param result hit / miss / bypass
+ */
+export function recordCacheLookup(result: "hit" | "miss" | "bypass"): void {
+  cacheLookups.inc({ tool: currentToolLabel(), result });
+}
+
+/**
+ * レート制限で拒否した呼び出しを記録する（実行中のツール名をラベルにする）
+ * @param scope 拒否の原因になった制限（global / client / tool）
+ */
+export function recordRateLimited(scope: string): void {
+  rateLimited.inc({ tool: currentToolLabel(), scope });
+}
+
+/**
+ * 出力サイズの上限で切り詰めた結果を記録する（実行中のツール名をラベルにする）
+ */
+export function recordOutputTruncated(): void {
+  outputTruncated.inc({ tool: currentToolLabel() });
+}
+
+/**
+ * ツールごとの呼び出し数・エラー数・レイテンシを記録するミドルウェア
+ */
+export function metricsMiddleware(): ToolMiddleware {
+  return async ({ toolName }, next) => {
+    toolCalls.inc({ tool: toolName });
+    const endTimer = toolDuration.startTimer({ tool: toolName });
+    try {
+      const result = await next();
+      if (result.isError) {
+        toolErrors.inc({ tool: toolName });
+      }
+      return result;
+    } catch (error) {
+      toolErrors.inc({ tool: toolName });
+      throw error;
+    } finally {
+      endTimer();
+    }
+  };
+}
@@ -0,0 +1,201 @@
+import { randomUUID } from "node:crypto";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import type { ToolMiddleware } from "../tools/middleware.js";
+import { readNumberEnv, readOptionalNumberEnv } from "./env.js";
+import { logger } from "./logger.js";
+import { recordOutputTruncated } from "./metrics.js";
+
+// 続きを取得するツール（自身の出力は呼び出し側で上限内に収める）
+export const READ_MORE_TOOL_NAME = "firecrawl_read_more";
+
+// トークン数から文字数に換算する際の目安（英文で1トークンあたり約4文字）
+const CHARS_PER_TOKEN = 4;
+
+// 上限の手前にある改行で区切る場合に、切り捨てを許容する割合
+const LINE_BREAK_TOLERANCE = 0.2;
+
+/**
+ * ツール結果の出力サイズの設定
+ */
+export interface OutputBudgetConfig {
+  // 1回のツール呼び出しで返すテキストの最大文字数（0の場合は制限しない）
+  maxChars: number;
+  // 切り詰めた結果の全文を保持する時間（ミリ秒）
+  ttlMs: number;
+  // 保持する結果の件数の上限（超えた場合は古いものから削除する）
+  maxEntries: number;
+}
+
+/**
+ * 環境変数から出力サイズの設定を取得する
+ * - FIRECRAWL_MAX_OUTPUT_CHARS: 1回の呼び出しで返す最大文字数（デフォルト: 100000、0で制限しない）
+ * - FIRECRAWL_MAX_OUTPUT_TOKENS: 最大トークン数の目安（1トークン=4文字として換算。両方指定した場合は小さい方）
+ * - FIRECRAWL_OUTPUT_TTL: 切り詰めた結果の全文を保持する時間（ミリ秒、デフォルト: 30分）
+ * - FIRECRAWL_OUTPUT_MAX_ENTRIES: 保持する結果の件数の上限（デフォルト: 50）
+ */
+export function getOutputBudgetConfig(): OutputBudgetConfig {
+  const limits = [
+    readNumberEnv("FIRECRAWL_MAX_OUTPUT_CHARS", 100000),
+    (readOptionalNumberEnv("FIRECRAWL_MAX_OUTPUT_TOKENS") ?? 0) *
+      CHARS_PER_TOKEN,
+  ].filter((limit) => limit > 0);
+  return {
+    maxChars: limits.length ? Math.floor(Math.min(...limits)) : 0,
+    ttlMs: readNumberEnv("FIRECRAWL_OUTPUT_TTL", 30 * 60 * 1000),
+    maxEntries: readNumberEnv("FIRECRAWL_OUTPUT_MAX_ENTRIES", 50),
+  };
+}
+
+/**
+ * 切り詰めたツール結果の全文
+ */
+interface StoredOutput {
+  // 作成したFirecrawlアカウント（マルチテナント時に他アカウントから参照させない）
+  tenantId: string;
+  toolName: string;
+  text: string;
+  expiresAt: number; // Date.now()
+}
+
+/**
+ * 切り詰めたツール結果の全文を、続きを取得するためのトークンで保持する（プロセス内のみ）
+ * Map の挿入順を作成順として使い、上限を超えた場合は先頭（最も古いもの）から削除する
+ */
+export class OutputStore {
+  private readonly entries = new Map<string, StoredOutput>();
+
+  constructor(private readonly maxEntries: number) {}
+
+  /**
+   * 全文を保存し、続きを取得するためのトークンを返す
+   */
+  put(output: StoredOutput): string {
+    const token = randomUUID();
+    this.entries.set(token, output);
+    this.purgeExpired();
+    for (const key of this.entries.keys()) {
+      if (this.entries.size <= this.maxEntries) {
+        break;
+      }
+      this.entries.delete(key);
+    }
+    return token;
+  }
+
+  /**
+   * トークンに対応する全文を取得する（期限切れ・他のアカウントのものは返さない）
+   */
+  get(token: string, tenantId: string): StoredOutput | undefined {
+    this.purgeExpired();
+    const output = this.entries.get(token);
+    return output?.tenantId === tenantId ? output : undefined;
+  }
+
+  private purgeExpired(): void {
+    const now = Date.now();
+    for (const [token, output] of this.entries) {
+      if (output.expiresAt <= now) {
+        this.entries.delete(token);
+      }
+    }
+  }
+}
+
+let outputStore: OutputStore | undefined;
+
+/**
+ * プロセス共通の保存先を取得する（全セッションで共有する）
+ */
+export function getOutputStore(): OutputStore {
+  if (!outputStore) {
+    outputStore = new OutputStore(getOutputBudgetConfig().maxEntries);
+  }
+  return outputStore;
+}
+
+/**
+ * text の offset から最大 maxChars 文字を取り出す位置を決める
+ * 上限の少し手前に改行があれば、行の途中で切らないようにそこで区切る
+ * @returns 取り出す範囲の終了位置
+ */
+export function sliceEnd(
+  text: string,
+  offset: number,
+  maxChars: number
+): number {
+  const end = offset + maxChars;
+  if (end >= text.length) {
+    return text.length;
+  }
+  const lineBreak = text.lastIndexOf("\n", end - 1);
+  return lineBreak >= end - maxChars * LINE_BREAK_TOLERANCE &&
+    lineBreak >= offset
+    ? lineBreak + 1
+    : end;
+}
+
+/**
+ * 続きがある場合に結果の末尾に付ける案内
+ */
+export function continuationNotice(
+  token: string,
+  start: number,
+  end: number,
+  total: number
+): string {
+  return `Output truncated: showing characters ${start}-${end} of ${total}. Call ${READ_MORE_TOOL_NAME} with token "${token}" and offset ${end} to read more.`;
+}
+
+/**
+ * ツール結果のテキストが上限を超えた場合に切り詰めるミドルウェア
+ * テキストはまとめて1つにし、上限までを返して全文をサーバー側に保持する（続きは firecrawl_read_more で取得する）
+ * 画像などテキスト以外の項目はそのまま返す（スクリーンショットには別途サイズ上限がある）
+ * @param tenantId Firecrawlアカウントのテナント ID（他のアカウントに続きを読ませない）
+ */
+export function outputBudgetMiddleware(tenantId: string): ToolMiddleware {
+  return async ({ toolName }, next) => {
+    const result = await next();
+    const config = getOutputBudgetConfig();
+    if (
+      config.maxChars <= 0 ||
+      result.isError ||
+      toolName === READ_MORE_TOOL_NAME
+    ) {
+      return result;
+    }
+
+    const texts = result.content.flatMap((item) =>
+      item.type === "text" ? [item.text] : []
+    );
+    const text = texts.join("\n\n");
+    if (text.length <= config.maxChars) {
+      return result;
+    }
+
+    const end = sliceEnd(text, 0, config.maxChars);
+    const token = getOutputStore().put({
+      tenantId,
+      toolName,
+      text,
+      expiresAt: Date.now() + config.ttlMs,
+    });
+    recordOutputTruncated();
+    logger.info("Truncated oversized tool result", {
+      chars: text.length,
+      returnedChars: end,
+    });
+
+    const truncated: CallToolResult = {
+      ...result,
+      content: [
+        { type: "text", text: text.slice(0, end) },
+        ...result.content.filter((item) => item.type !== "text"),
+        {
+          type: "text",
+          text: continuationNotice(token, 0, end, text.length),
+        },
+      ],
+    };
+    return truncated;
+  };
+}
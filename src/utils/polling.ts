@@ -0,0 +1,40 @@
+import { sleep, withRetry } from "./retry.js";
+
+// 完了を待つ間のジョブの状態
+const RUNNING_STATUSES = new Set(["pending", "processing"]);
+
+/**
+ * ジョブのポーリングの設定
+ */
+export interface PollOptions<T> {
+  // 状態を確認する間隔（ミリ秒）
+  intervalMs: number;
+  // 中断された場合はポーリングをやめて signal.reason を投げる
+  signal?: AbortSignal;
+  // 状態を取得するたびに呼ばれる（進捗の通知などに使う）
+  onStatus?: (status: T) => void;
+}
+
+/**
+ * Firecrawlの非同期ジョブが実行中でなくなるまで状態を確認し続ける
+ * 状態の取得は1回ずつ withRetry で再試行する。完了・失敗の判定は呼び出し側で行う
+ * @param operation ログ・エラーメッセージ用の処理名
+ * @param check ジョブの状態を取得する関数
+ * @param options ポーリングの設定
+ * @returns 最後に取得した状態（エラーレスポンスの場合はそのまま返す）
+ */
+export async function pollUntilDone<T extends object>(
+  operation: string,
+  check: () => Promise<T>,
+  { intervalMs, signal, onStatus }: PollOptions<T>
+): Promise<T> {
+  for (;;) {
+    const { result: status } = await withRetry(operation, check, { signal });
+    onStatus?.(status);
+    const current = "status" in status ? status.status : undefined;
+    if (typeof current !== "string" || !RUNNING_STATUSES.has(current)) {
+      return status;
+    }
+    await sleep(intervalMs, signal);
+  }
+}
@@ -0,0 +1,83 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { LoggingLevel } from "@modelcontextprotocol/sdk/types.js";
+import type { ToolExtra } from "../tools/middleware.js";
+import { logger } from "./logger.js";
+
+/**
+ * 進捗を通知する関数
+ * @param progress 現在の進捗（完了数など）
+ * @param total 全体の量（不明な場合は省略）
+ * @param message 進捗の説明
+ */
+export type ProgressReporter = (
+  progress: number,
+  total?: number,
+  message?: string
+) => Promise<void>;
+
+/**
+ * ツール呼び出しの progressToken 宛てに notifications/progress を送る関数を作成する
+ * クライアントが progressToken を指定していない場合は何もしない
+ * @param extra ツールハンドラーが受け取るリクエスト情報
+ */
+export function createProgressReporter(extra: ToolExtra): ProgressReporter {
+  const progressToken = extra._meta?.progressToken;
+  // 進捗は増加し続ける必要があるため、前回以下の値は送らない
+  let lastProgress = -1;
+
+  return async (progress, total, message) => {
+    if (progressToken === undefined || progress <= lastProgress) {
+      return;
+    }
+    lastProgress = progress;
+    try {
+      await extra.sendNotification({
+        method: "notifications/progress",
+        params: {
+          progressToken,
+          progress,
+          ...(total !== undefined ? { total } : {}),
+          ...(message !== undefined ? { message } : {}),
+        },
+      });
+    } catch (error) {
+      // 通知に失敗してもツールの処理は続ける
+      logger.debug("Failed to send progress notification", { error });
+    }
+  };
+}
+
+/**
+ * 呼び出し元のクライアントにログメッセージ（notifications/message）を送る関数
+ * @param level ログレベル
+ * @param data 送る内容（JSONにできる値）
+ */
+export type ClientLogger = (
+  level: LoggingLevel,
+  data: unknown
+) => Promise<void>;
+
+/**
+ * 呼び出し元のセッションに notifications/message を送る関数を作成する
+ * クライアントが logging/setLevel で指定したレベル未満のメッセージは送らない
+ * サーバーが logging capability を宣言している必要がある
+ * @param server MCPサーバーインスタンス
+ * @param extra ツールハンドラーが受け取るリクエスト情報
+ * @param name 送信元として表示するロガー名
+ */
+export function createClientLogger(
+  server: McpServer,
+  extra: ToolExtra,
+  name: string
+): ClientLogger {
+  return async (level, data) => {
+    try {
+      await server.server.sendLoggingMessage(
+        { level, logger: name, data },
+        extra.sessionId
+      );
+    } catch (error) {
+      logger.debug("Failed to send log notification", { error });
+    }
+  };
+}
@@ -0,0 +1,255 @@
+import type { ToolMiddleware } from "../tools/middleware.js";
+import { readNumberEnv, readOptionalNumberEnv } from "./env.js";
+import { logger } from "./logger.js";
+import { recordRateLimited } from "./metrics.js";
+import { sleep } from "./retry.js";
+
+/**
+ * レート制限の設定（いずれも1分あたりの呼び出し数。未設定・0の場合は制限しない）
+ */
+export interface RateLimitConfig {
+  // 全クライアント合計
+  globalPerMinute?: number;
+  // 認証トークン（認証が無効な場合はセッション）ごと
+  clientPerMinute?: number;
+  // ツールごと（全クライアント合計）
+  toolPerMinute: Record<string, number>;
+  // reject: 直ちにエラーを返す / queue: 枠が空くまで待つ
+  mode: "reject" | "queue";
+  // queue の場合に待つ時間の上限（ミリ秒）。超える場合はエラーを返す
+  maxWaitMs: number;
+}
+
+/**
+ * 環境変数からレート制限の設定を取得する
+ * - FIRECRAWL_RATE_LIMIT_GLOBAL: 全体の1分あたりの呼び出し数
+ * - FIRECRAWL_RATE_LIMIT_CLIENT: 認証トークン・セッションごとの1分あたりの呼び出し数
+ * - FIRECRAWL_RATE_LIMIT_TOOLS: ツールごとの1分あたりの呼び出し数（"firecrawl_scrape:30,firecrawl_crawl:5"）
+ * - FIRECRAWL_RATE_LIMIT_MODE: reject（デフォルト）または queue
+ * - FIRECRAWL_RATE_LIMIT_MAX_WAIT: queue の場合に待つ時間の上限（ミリ秒、デフォルト: 30000）
+ */
+export function getRateLimitConfig(): RateLimitConfig {
+  const toolPerMinute: Record<string, number> = {};
+  for (const entry of (process.env.FIRECRAWL_RATE_LIMIT_TOOLS ?? "").split(
+    ","
+  )) {
+    const [tool, limit] = entry.split(":").map((part) => part.trim());
+    const value = Number(limit);
+    if (tool && Number.isFinite(value) && value > 0) {
+      toolPerMinute[tool] = value;
+    }
+  }
+  return {
+    globalPerMinute:
+      readOptionalNumberEnv("FIRECRAWL_RATE_LIMIT_GLOBAL") || undefined,
+    clientPerMinute:
+      readOptionalNumberEnv("FIRECRAWL_RATE_LIMIT_CLIENT") || undefined,
+    toolPerMinute,
+    mode:
+      process.env.FIRECRAWL_RATE_LIMIT_MODE === "queue" ? "queue" : "reject",
+    maxWaitMs: readNumberEnv("FIRECRAWL_RATE_LIMIT_MAX_WAIT", 30000),
+  };
+}
+
+/**
+ * トークンバケット
+ * 1分間の上限数までトークンを貯められ、上限数/分の速さで補充される（最大で1分間分をまとめて実行できる）
+ */
+class TokenBucket {
+  private tokens: number;
+  private updatedAt = Date.now();
+
+  constructor(readonly perMinute: number) {
+    this.tokens = perMinute;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(
+      this.perMinute,
+      this.tokens + ((now - this.updatedAt) * this.perMinute) / 60000
+    );
+    this.updatedAt = now;
+  }
+
+  /**
+   * トークンを1つ使えるようになるまでの時間（ミリ秒、すぐに使える場合は0）
+   */
+  waitTime(): number {
+    this.refill();
+    return this.tokens >= 1
+      ? 0
+      : Math.ceil(((1 - this.tokens) * 60000) / this.perMinute);
+  }
+
+  take(): void {
+    this.tokens -= 1;
+  }
+
+  // 満杯のバケットは新しく作ったものと同じため、削除してよい
+  get full(): boolean {
+    this.refill();
+    return this.tokens >= this.perMinute;
+  }
+}
+
+// クライアントごとのバケットを掃除する目安の件数
+const MAX_IDLE_CLIENT_BUCKETS = 1000;
+
+type RateLimitScope = "global" | "client" | "tool";
+
+/**
+ * 呼び出しに適用される制限と、使えるようになるまでの時間
+ */
+interface RateLimitDecision {
+  waitMs: number;
+  // 最も長く待つ必要がある制限の種類と説明
+  scope?: RateLimitScope;
+  description?: string;
+}
+
+/**
+ * 全体・クライアントごと・ツールごとのトークンバケットを管理する
+ * 呼び出しはすべてのバケットにトークンがある場合のみ実行し、それぞれから1つずつ使う
+ */
+export class RateLimiter {
+  private readonly globalBucket?: TokenBucket;
+  private readonly toolBuckets = new Map<string, TokenBucket>();
+  private readonly clientBuckets = new Map<string, TokenBucket>();
+
+  constructor(readonly config: RateLimitConfig) {
+    if (config.globalPerMinute) {
+      this.globalBucket = new TokenBucket(config.globalPerMinute);
+    }
+    for (const [tool, perMinute] of Object.entries(config.toolPerMinute)) {
+      this.toolBuckets.set(tool, new TokenBucket(perMinute));
+    }
+  }
+
+  get enabled(): boolean {
+    return (
+      this.globalBucket !== undefined ||
+      this.config.clientPerMinute !== undefined ||
+      this.toolBuckets.size > 0
+    );
+  }
+
+  private buckets(
+    toolName: string,
+    clientId: string
+  ): { bucket: TokenBucket; scope: RateLimitScope; label: string }[] {
+    const buckets: {
+      bucket: TokenBucket;
+      scope: RateLimitScope;
+      label: string;
+    }[] = [];
+    if (this.globalBucket) {
+      buckets.push({
+        bucket: this.globalBucket,
+        scope: "global",
+        label: "global",
+      });
+    }
+    if (this.config.clientPerMinute) {
+      let bucket = this.clientBuckets.get(clientId);
+      if (!bucket) {
+        this.pruneClientBuckets();
+        bucket = new TokenBucket(this.config.clientPerMinute);
+        this.clientBuckets.set(clientId, bucket);
+      }
+      buckets.push({ bucket, scope: "client", label: "per-client" });
+    }
+    const toolBucket = this.toolBuckets.get(toolName);
+    if (toolBucket) {
+      buckets.push({ bucket: toolBucket, scope: "tool", label: toolName });
+    }
+    return buckets;
+  }
+
+  private pruneClientBuckets(): void {
+    if (this.clientBuckets.size < MAX_IDLE_CLIENT_BUCKETS) {
+      return;
+    }
+    for (const [clientId, bucket] of this.clientBuckets) {
+      if (bucket.full) {
+        this.clientBuckets.delete(clientId);
+      }
+    }
+  }
+
+  /**
+   * すべての制限に空きがあればトークンを使い、waitMs: 0 を返す
+   * 空きがない場合はトークンを使わず、最も長く待つ必要がある制限を返す
+   * @param toolName ツール名
+   * @param clientId 認証トークン名またはセッションID
+   */
+  tryAcquire(toolName: string, clientId: string): RateLimitDecision {
+    const buckets = this.buckets(toolName, clientId);
+    let decision: RateLimitDecision = { waitMs: 0 };
+    for (const { bucket, scope, label } of buckets) {
+      const waitMs = bucket.waitTime();
+      if (waitMs > decision.waitMs) {
+        decision = {
+          waitMs,
+          scope,
+          description: `${label} limit of ${bucket.perMinute} calls/min`,
+        };
+      }
+    }
+    if (decision.waitMs === 0) {
+      buckets.forEach(({ bucket }) => bucket.take());
+    }
+    return decision;
+  }
+}
+
+let rateLimiter: RateLimiter | undefined;
+
+/**
+ * プロセス共通のレート制限を取得する（全セッションで共有する）
+ */
+export function getRateLimiter(): RateLimiter {
+  if (!rateLimiter) {
+    rateLimiter = new RateLimiter(getRateLimitConfig());
+  }
+  return rateLimiter;
+}
+
+/**
+ * ツール呼び出しをレート制限するミドルウェア
+ * 制限を超えた呼び出しは、設定に従ってエラーを返すか、枠が空くまで待ってから実行する
+ */
+export function rateLimitMiddleware(limiter: RateLimiter): ToolMiddleware {
+  return async ({ toolName, extra }, next) => {
+    if (!limiter.enabled) {
+      return next();
+    }
+    const clientId = extra.authInfo?.clientId ?? extra.sessionId ?? "default";
+    const deadline = Date.now() + limiter.config.maxWaitMs;
+
+    for (;;) {
+      const { waitMs, scope, description } = limiter.tryAcquire(
+        toolName,
+        clientId
+      );
+      if (waitMs === 0) {
+        return next();
+      }
+      if (limiter.config.mode === "reject" || Date.now() + waitMs > deadline) {
+        recordRateLimited(scope ?? "global");
+        logger.warn("Rate limited tool call", { scope, waitMs });
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error: Rate limited (${description}): retry in ${Math.ceil(waitMs / 1000)}s`,
+            },
+          ],
+          isError: true,
+        };
+      }
+      logger.debug("Waiting for rate limit", { scope, waitMs });
+      await sleep(waitMs, extra.signal);
+    }
+  };
+}
@@ -0,0 +1,141 @@
+/**
+ * Deep Researchで参照した情報源
+ */
+export interface ResearchSource {
+  url: string;
+  title?: string;
+  description?: string;
+}
+
+/**
+ * Deep Researchのアクティビティ（調査の経過）
+ */
+export interface ResearchActivity {
+  type: string;
+  status: string;
+  message: string;
+  timestamp: string;
+  depth: number;
+}
+
+/**
+ * レポートに載せる情報源（番号は本文中の引用 [n] に対応する）
+ */
+export interface NumberedSource extends ResearchSource {
+  index: number;
+  // 本文中で引用されているか
+  cited: boolean;
+}
+
+/**
+ * Deep Researchのレポートの出力設定
+ */
+export interface ResearchReportOptions {
+  includeSources: boolean;
+  includeActivities: boolean;
+  format: "markdown" | "json";
+}
+
+// 末尾のスラッシュとフラグメントの違いは同じ情報源として扱う
+function sourceKey(url: string): string {
+  return url.replace(/#.*$/, "").replace(/\/+$/, "");
+}
+
+// 本文中のMarkdownリンク [ラベル](URL)
+const MARKDOWN_LINK = /\[([^\]]+)\]\((https?:\/\/[^\s)]+)\)/g;
+
+/**
+ * 本文中のリンクを番号つきの引用 [n] に置き換え、情報源の一覧と対応づける
+ * 一覧にないURLへのリンクは、リンクのラベルをタイトルとして一覧に追加する
+ * @param analysis 最終レポートの本文
+ * @param sources Firecrawlが返した情報源（重複は除く）
+ */
+export function addCitations(
+  analysis: string,
+  sources: ResearchSource[]
+): { text: string; sources: NumberedSource[] } {
+  const numbered: NumberedSource[] = [];
+  const byKey = new Map<string, NumberedSource>();
+  const addSource = (source: ResearchSource): NumberedSource => {
+    const key = sourceKey(source.url);
+    let entry = byKey.get(key);
+    if (!entry) {
+      entry = { index: numbered.length + 1, ...source, cited: false };
+      numbered.push(entry);
+      byKey.set(key, entry);
+    }
+    return entry;
+  };
+  sources.forEach(addSource);
+
+  const text = analysis.replace(
+    MARKDOWN_LINK,
+    (_match, label: string, url: string) => {
+      const entry = addSource({ url, title: label });
+      entry.cited = true;
+      return `${label} [${entry.index}]`;
+    }
+  );
+  return { text, sources: numbered };
+}
+
+/**
+ * Deep Researchの結果を、情報源・アクティビティを含むレポートにする
+ * @param analysis 最終レポートの本文
+ * @param sources 情報源
+ * @param activities 調査の経過
+ * @param options 出力設定
+ */
+export function formatResearchReport(
+  analysis: string,
+  sources: ResearchSource[],
+  activities: ResearchActivity[],
+  { includeSources, includeActivities, format }: ResearchReportOptions
+): string {
+  const cited = includeSources
+    ? addCitations(analysis, sources)
+    : { text: analysis, sources: [] };
+
+  if (format === "json") {
+    return JSON.stringify(
+      {
+        finalAnalysis: cited.text,
+        ...(includeSources ? { sources: cited.sources } : {}),
+        ...(includeActivities ? { activities } : {}),
+      },
+      null,
+      2
+    );
+  }
+
+  const sections = [cited.text];
+  if (includeSources) {
+    sections.push(
+      `## Sources\n\n${
+        cited.sources.length
+          ? cited.sources
+              .map(
+                (source) =>
+                  `[${source.index}] ${source.title || source.url} - ${source.url}`
+              )
+              .join("\n")
+          : "(no sources reported)"
+      }`
+    );
+  }
+  if (includeActivities) {
+    sections.push(
+      `## Research Activity\n\n${
+        activities.length
+          ? activities
+              .map(
+                (activity) =>
+                  `- ${activity.timestamp} [depth ${activity.depth}] ${activity.type} (${activity.status}): ${activity.message}`
+              )
+              .join("\n")
+          : "(no activities reported)"
+      }`
+    );
+  }
+  return sections.join("\n\n");
+}
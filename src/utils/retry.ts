@@ -0,0 +1,339 @@
+import { FirecrawlError } from "@mendable/firecrawl-js";
+import { readNumberEnv } from "./env.js";
+import { logger } from "./logger.js";
+import { recordRetry } from "./metrics.js";
+
+/**
+ * リトライ設定
+ */
+export interface RetryConfig {
+  maxAttempts: number;
+  initialDelay: number; // ミリ秒
+  maxDelay: number; // ミリ秒
+  backoffFactor: number;
+}
+
+/**
+ * エラーの分類
+ * - rate_limited: 429 (Retry-After を尊重して再試行)
+ * - transient: 408 / 5xx / ネットワークエラー (バックオフして再試行)
+ * - permanent: それ以外 (即座に失敗)
+ */
+export type RetryErrorKind = "rate_limited" | "transient" | "permanent";
+
+export interface ErrorClassification {
+  kind: RetryErrorKind;
+  retryAfterMs?: number;
+}
+
+/**
+ * withRetryのオプション（リトライ設定の上書きと中断シグナル）
+ */
+export interface RetryOptions extends Partial<RetryConfig> {
+  // 中断された場合は再試行・待機をやめて signal.reason を投げる
+  signal?: AbortSignal;
+}
+
+/**
+ * withRetryの戻り値
+ */
+export interface RetryResult<T> {
+  result: T;
+  attempts: number;
+}
+
+/**
+ * 再試行を重ねても成功しなかった場合のエラー
+ */
+export class RetryError extends Error {
+  constructor(
+    message: string,
+    public readonly attempts: number,
+    public readonly kind: RetryErrorKind,
+    public readonly cause: unknown
+  ) {
+    super(message);
+    this.name = "RetryError";
+  }
+}
+
+const DEFAULT_RETRY_CONFIG: RetryConfig = {
+  maxAttempts: 3,
+  initialDelay: 1000,
+  maxDelay: 10000,
+  backoffFactor: 2,
+};
+
+// 再試行対象とするネットワークエラーコード
+const TRANSIENT_ERROR_CODES = new Set([
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ECONNABORTED",
+  "ETIMEDOUT",
+  "EPIPE",
+  "EAI_AGAIN",
+]);
+
+/**
+ * 環境変数からリトライ設定を読み込む
+ * dotenv.config()の後に評価されるよう、呼び出し時に読み込む
+ */
+export function getRetryConfig(): RetryConfig {
+  return {
+    maxAttempts: Math.max(
+      1,
+      Math.floor(
+        readNumberEnv(
+          "FIRECRAWL_RETRY_MAX_ATTEMPTS",
+          DEFAULT_RETRY_CONFIG.maxAttempts
+        )
+      )
+    ),
+    initialDelay: readNumberEnv(
+      "FIRECRAWL_RETRY_INITIAL_DELAY",
+      DEFAULT_RETRY_CONFIG.initialDelay
+    ),
+    maxDelay: readNumberEnv(
+      "FIRECRAWL_RETRY_MAX_DELAY",
+      DEFAULT_RETRY_CONFIG.maxDelay
+    ),
+    backoffFactor: readNumberEnv(
+      "FIRECRAWL_RETRY_BACKOFF_FACTOR",
+      DEFAULT_RETRY_CONFIG.backoffFactor
+    ),
+  };
+}
+
+/**
+ * Retry-After の値 (秒数またはHTTP日付) をミリ秒に変換する
+ */
+function parseRetryAfter(value: unknown): number | undefined {
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return Math.max(0, value * 1000);
+  }
+  if (typeof value !== "string" || value.trim() === "") {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+  return undefined;
+}
+
+/**
+ * エラーからRetry-Afterを取り出す
+ * firecrawl-jsはレスポンスヘッダーを公開しないため、details・axiosレスポンス・
+ * エラーメッセージ ("retry after 30s") の順に探す
+ */
+function extractRetryAfter(error: unknown): number | undefined {
+  if (!error || typeof error !== "object") {
+    return undefined;
+  }
+  const err = error as {
+    details?: { retryAfter?: unknown };
+    response?: { headers?: Record<string, unknown> };
+    message?: unknown;
+  };
+
+  const fromDetails = parseRetryAfter(err.details?.retryAfter);
+  if (fromDetails !== undefined) {
+    return fromDetails;
+  }
+
+  const fromHeader = parseRetryAfter(err.response?.headers?.["retry-after"]);
+  if (fromHeader !== undefined) {
+    return fromHeader;
+  }
+
+  if (typeof err.message === "string") {
+    const match = err.message.match(/retry after (\d+(?:\.\d+)?)\s*s/i);
+    if (match) {
+      return Number(match[1]) * 1000;
+    }
+  }
+  return undefined;
+}
+
+// firecrawl-jsのエラーメッセージに含まれるHTTPステータス
+// （"Status code: 404" / "Request failed with status code 404"）
+const MESSAGE_STATUS_PATTERN = /status code:?\s*(\d{3})\b/i;
+
+function getStatusCode(error: unknown): number | undefined {
+  if (error instanceof FirecrawlError) {
+    // firecrawl-jsは多くのメソッドで元のエラーを FirecrawlError(message, 500) に包み直すため、
+    // 500 の場合はメッセージに含まれる元のステータスを優先する
+    if (error.statusCode === 500) {
+      const match = error.message.match(MESSAGE_STATUS_PATTERN);
+      if (match) {
+        return Number(match[1]);
+      }
+    }
+    return error.statusCode;
+  }
+  if (error && typeof error === "object") {
+    const err = error as {
+      statusCode?: unknown;
+      response?: { status?: unknown };
+    };
+    if (typeof err.statusCode === "number") {
+      return err.statusCode;
+    }
+    if (typeof err.response?.status === "number") {
+      return err.response.status;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * エラーを rate_limited / transient / permanent に分類する
+ */
+export function classifyError(error: unknown): ErrorClassification {
+  const statusCode = getStatusCode(error);
+
+  if (statusCode === 429) {
+    return { kind: "rate_limited", retryAfterMs: extractRetryAfter(error) };
+  }
+  if (statusCode === 408 || (statusCode !== undefined && statusCode >= 500)) {
+    return { kind: "transient", retryAfterMs: extractRetryAfter(error) };
+  }
+  if (statusCode !== undefined) {
+    return { kind: "permanent" };
+  }
+
+  if (error && typeof error === "object") {
+    const code = (error as { code?: unknown }).code;
+    if (typeof code === "string" && TRANSIENT_ERROR_CODES.has(code)) {
+      return { kind: "transient" };
+    }
+  }
+
+  // firecrawl-jsはレスポンスのないネットワークエラー時に handleError(undefined) を呼び、
+  // 元のエラーの代わりに TypeError を投げるため、これも一時的な障害として扱う
+  if (
+    error instanceof TypeError &&
+    error.message.includes("reading 'status'")
+  ) {
+    return { kind: "transient" };
+  }
+
+  return { kind: "permanent" };
+}
+
+/**
+ * 指数バックオフ（ジッター付き）の待機時間を計算する
+ * @param attempt 失敗した試行回数 (1始まり)
+ */
+export function computeBackoffDelay(
+  attempt: number,
+  config: RetryConfig
+): number {
+  const exponential =
+    config.initialDelay * Math.pow(config.backoffFactor, attempt - 1);
+  const capped = Math.min(config.maxDelay, exponential);
+  // 同時に失敗したリクエストが一斉に再試行しないよう、上限の半分〜上限の範囲でばらつかせる
+  return Math.round(capped / 2 + Math.random() * (capped / 2));
+}
+
+/**
+ * 指定したミリ秒だけ待つ
+ * @param ms 待つ時間（ミリ秒）
+ * @param signal 中断シグナル（中断された場合は signal.reason で reject する）
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return abortable(new Promise((resolve) => setTimeout(resolve, ms)), signal);
+}
+
+/**
+ * 中断された時点で signal.reason で reject する Promise を返す
+ * 元の処理自体は止まらないため、中断できないAPI呼び出しの結果を待たずに戻る場合に使う
+ * @param promise 待つ処理
+ * @param signal 中断シグナル
+ */
+export function abortable<T>(
+  promise: Promise<T>,
+  signal?: AbortSignal
+): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+  if (signal.aborted) {
+    return Promise.reject(signal.reason);
+  }
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => {
+      signal.removeEventListener("abort", onAbort);
+    });
+  });
+}
+
+/**
+ * Firecrawlクライアント呼び出しをリトライ付きで実行する
+ * @param operation ログ用の操作名
+ * @param fn 実行する処理
+ * @param options リトライ設定の上書き・中断シグナル（オプション）
+ * @returns 処理結果と試行回数
+ */
+export async function withRetry<T>(
+  operation: string,
+  fn: () => Promise<T>,
+  options: RetryOptions = {}
+): Promise<RetryResult<T>> {
+  const { signal, ...overrides } = options;
+  const config = { ...getRetryConfig(), ...overrides };
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      signal?.throwIfAborted();
+      const result = await abortable(fn(), signal);
+      return { result, attempts: attempt };
+    } catch (error) {
+      // 中断された場合は再試行しない
+      if (signal?.aborted) {
+        throw signal.reason;
+      }
+      const { kind, retryAfterMs } = classifyError(error);
+      const message = error instanceof Error ? error.message : String(error);
+
+      if (kind === "permanent" || attempt >= config.maxAttempts) {
+        if (attempt === 1) {
+          throw error;
+        }
+        throw new RetryError(
+          `${message} (gave up after ${attempt} attempts)`,
+          attempt,
+          kind,
+          error
+        );
+      }
+
+      // Retry-Afterが指定されていればそれを優先し、なければバックオフする
+      const delay = retryAfterMs ?? computeBackoffDelay(attempt, config);
+      logger.warn(`Retrying ${operation} after ${kind} error`, {
+        attempt,
+        maxAttempts: config.maxAttempts,
+        delayMs: delay,
+        error: message,
+      });
+      recordRetry(kind);
+      await sleep(delay, signal);
+    }
+  }
+}
+
+/**
+ * 再試行が発生した場合、ツール結果のテキストに試行回数を付記する
+ */
+export function appendAttemptInfo(text: string, attempts: number): string {
+  if (attempts <= 1) {
+    return text;
+  }
+  return `${text}\n\n(Succeeded after ${attempts} attempts)`;
+}
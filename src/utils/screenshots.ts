@@ -0,0 +1,115 @@
+import sharp from "sharp";
+import type {
+  ImageContent,
+  TextContent,
+} from "@modelcontextprotocol/sdk/types.js";
+import { readNumberEnv, readOptionalNumberEnv } from "./env.js";
+import { logger } from "./logger.js";
+
+const SCREENSHOT_FETCH_TIMEOUT_MS = 30000;
+// サイズ上限を超えた場合に再エンコードするJPEGの品質
+const FALLBACK_JPEG_QUALITY = 75;
+
+/**
+ * スクリーンショットの変換設定
+ */
+export interface ScreenshotConfig {
+  // 返す画像の最大幅（px）。超える場合は縮小する（未設定の場合は縮小しない）
+  maxWidth?: number;
+  // 返す画像の最大サイズ（バイト）。縮小・再エンコードしても超える場合はURLのみ返す
+  maxBytes: number;
+}
+
+/**
+ * 環境変数からスクリーンショットの設定を取得する
+ * - FIRECRAWL_SCREENSHOT_MAX_WIDTH: 最大幅（px）
+ * - FIRECRAWL_SCREENSHOT_MAX_BYTES: 最大サイズ（デフォルト: 1MB）
+ */
+export function getScreenshotConfig(): ScreenshotConfig {
+  return {
+    maxWidth:
+      readOptionalNumberEnv("FIRECRAWL_SCREENSHOT_MAX_WIDTH") || undefined,
+    maxBytes: readNumberEnv("FIRECRAWL_SCREENSHOT_MAX_BYTES", 1024 * 1024),
+  };
+}
+
+// Firecrawlはスクリーンショットを URL（ホスティング先）または data URI で返す
+async function loadScreenshot(
+  source: string
+): Promise<{ data: Buffer; mimeType?: string }> {
+  const dataUri = source.match(/^data:([^;,]+)?(;base64)?,(.*)$/s);
+  if (dataUri) {
+    const [, mimeType, isBase64, payload] = dataUri;
+    return {
+      data: isBase64
+        ? Buffer.from(payload, "base64")
+        : Buffer.from(decodeURIComponent(payload)),
+      mimeType,
+    };
+  }
+
+  const response = await fetch(source, {
+    signal: AbortSignal.timeout(SCREENSHOT_FETCH_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to fetch screenshot (HTTP ${response.status})`);
+  }
+  return {
+    data: Buffer.from(await response.arrayBuffer()),
+    mimeType: response.headers.get("content-type")?.split(";")[0],
+  };
+}
+
+/**
+ * スクリーンショットをMCPの画像コンテンツに変換する
+ * 最大幅を超える場合は縮小し、最大サイズを超える場合はJPEGに再エンコードする
+ * それでも超える・取得できない場合は、URLを記載したテキストを返す
+ * @param source スクリーンショットのURLまたはdata URI
+ * @param label 画像の説明（フォールバック時のテキストに使用）
+ * @param config 変換設定
+ */
+export async function screenshotToContent(
+  source: string,
+  label: string,
+  config: ScreenshotConfig = getScreenshotConfig()
+): Promise<ImageContent | TextContent> {
+  const link = source.startsWith("data:") ? "(inline data)" : source;
+  try {
+    const loaded = await loadScreenshot(source);
+    let data = loaded.data;
+    let mimeType = loaded.mimeType;
+
+    const metadata = await sharp(data).metadata();
+    if (config.maxWidth && metadata.width && metadata.width > config.maxWidth) {
+      data = await sharp(data).resize({ width: config.maxWidth }).toBuffer();
+    }
+    if (data.length > config.maxBytes) {
+      data = await sharp(data)
+        .jpeg({ quality: FALLBACK_JPEG_QUALITY })
+        .toBuffer();
+      mimeType = "image/jpeg";
+    }
+    if (data.length > config.maxBytes) {
+      return {
+        type: "text",
+        text: `${label}: image is too large to return (${data.length} bytes > ${config.maxBytes} bytes limit). URL: ${link}`,
+      };
+    }
+
+    return {
+      type: "image",
+      data: data.toString("base64"),
+      mimeType:
+        mimeType && mimeType.startsWith("image/")
+          ? mimeType
+          : `image/${metadata.format ?? "png"}`,
+    };
+  } catch (error) {
+    logger.warn("Failed to load screenshot", { error });
+    const message = error instanceof Error ? error.message : String(error);
+    return {
+      type: "text",
+      text: `${label}: could not load image (${message}). URL: ${link}`,
+    };
+  }
+}
@@ -0,0 +1,65 @@
+import { logger } from "./logger.js";
+
+/**
+ * グレースフルシャットダウンの設定
+ */
+export interface GracefulShutdownOptions {
+  // 実行中の処理を待つ上限時間（ミリ秒）
+  timeoutMs: number;
+  // 新しいリクエスト・セッションの受付を止める
+  stopAccepting: () => void;
+  // 完了を待つ処理（実行中のツール呼び出し、バッチキューなど）
+  drain: (() => Promise<void>)[];
+  // トランスポート・サーバーを閉じる
+  close: () => Promise<void>;
+}
+
+/**
+ * SIGTERM / SIGINT を受けたら、受付停止 → 実行中の処理の完了待ち（上限あり） → 終了処理 の順にシャットダウンする
+ * シャットダウン中に再度シグナルを受けた場合は即座に終了する
+ * @param options シャットダウンの設定
+ */
+export function registerGracefulShutdown(
+  options: GracefulShutdownOptions
+): void {
+  let shuttingDown = false;
+
+  const shutdown = async (signal: NodeJS.Signals) => {
+    if (shuttingDown) {
+      logger.warn(`${signal} received again, exiting immediately.`);
+      process.exit(1);
+    }
+    shuttingDown = true;
+    logger.info(`${signal} received, shutting down gracefully...`, {
+      timeoutMs: options.timeoutMs,
+    });
+
+    options.stopAccepting();
+
+    let timer: NodeJS.Timeout | undefined;
+    const deadline = new Promise<boolean>((resolve) => {
+      timer = setTimeout(() => resolve(false), options.timeoutMs);
+    });
+    const drained = await Promise.race([
+      Promise.all(options.drain.map((wait) => wait())).then(() => true),
+      deadline,
+    ]);
+    clearTimeout(timer);
+    if (!drained) {
+      logger.warn(
+        "Shutdown timeout reached, closing with work still in progress."
+      );
+    }
+
+    try {
+      await options.close();
+    } catch (error: unknown) {
+      logger.error("Error during shutdown", { error });
+    }
+    logger.info("Shutdown complete.");
+    process.exit(0);
+  };
+
+  process.on("SIGTERM", (signal) => void shutdown(signal));
+  process.on("SIGINT", (signal) => void shutdown(signal));
+}
@@ -0,0 +1,14 @@
+import { createHash } from "node:crypto";
+
+/**
+ * Firecrawlの認証情報からテナントIDを生成する
+ * マルチテナントモードでジョブの所有者を区別するためのもので、APIキー自体は保持しない
+ * @param apiKey Firecrawl API Key
+ * @param apiUrl Firecrawl API URL（オプション）
+ */
+export function getTenantId(apiKey: string, apiUrl?: string): string {
+  return createHash("sha256")
+    .update(`${apiUrl ?? ""}::${apiKey}`)
+    .digest("hex")
+    .slice(0, 16);
+}
@@ -0,0 +1,269 @@
+import { lookup } from "node:dns/promises";
+import { BlockList, isIP } from "node:net";
+import type { ToolMiddleware } from "../tools/middleware.js";
+import { logger } from "./logger.js";
+
+/**
+ * ツールに渡されたURLの制限
+ */
+export interface UrlPolicyConfig {
+  // 許可するスキーム（末尾の ":" は含めない）
+  allowedSchemes: string[];
+  // 指定した場合は、いずれかに一致するホストのみ許可する
+  allowDomains: string[];
+  // 一致するホストは拒否する（allowDomains より優先）
+  denyDomains: string[];
+  // DNSで解決したアドレスがプライベート・ループバック・リンクローカルの場合は拒否する
+  blockPrivateAddresses: boolean;
+}
+
+function readListEnv(name: string): string[] {
+  return (process.env[name] ?? "")
+    .split(",")
+    .map((value) => value.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+/**
+ * 環境変数からURLの制限を取得する
+ * - FIRECRAWL_URL_ALLOWED_SCHEMES: 許可するスキーム（デフォルト: http,https）
+ * - FIRECRAWL_URL_ALLOWLIST: 許可するドメイン（カンマ区切り、"*.example.com" でサブドメイン）
+ * - FIRECRAWL_URL_DENYLIST: 拒否するドメイン（同上）
+ * - FIRECRAWL_URL_BLOCK_PRIVATE: false でプライベートアドレスへのアクセスを許可する（デフォルト: true）
+ */
+export function getUrlPolicyConfig(): UrlPolicyConfig {
+  const schemes = readListEnv("FIRECRAWL_URL_ALLOWED_SCHEMES");
+  return {
+    allowedSchemes: schemes.length ? schemes : ["http", "https"],
+    allowDomains: readListEnv("FIRECRAWL_URL_ALLOWLIST"),
+    denyDomains: readListEnv("FIRECRAWL_URL_DENYLIST"),
+    blockPrivateAddresses:
+      process.env.FIRECRAWL_URL_BLOCK_PRIVATE?.toLowerCase() !== "false",
+  };
+}
+
+/**
+ * URLが制限に違反している場合のエラー
+ */
+export class UrlPolicyError extends Error {
+  constructor(
+    public readonly field: string,
+    public readonly url: string,
+    public readonly reason: string
+  ) {
+    super(`URL policy violation in ${field} (${url}): ${reason}`);
+    this.name = "UrlPolicyError";
+  }
+}
+
+// 外部から到達できるべきでないアドレス範囲（プライベート・ループバック・リンクローカルなど）
+const PRIVATE_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, "ipv6");
+}
+
+/**
+ * プライベート・ループバック・リンクローカルなどのアドレスか
+ * @param address IPv4 / IPv6 アドレス
+ */
+export function isPrivateAddress(address: string): boolean {
+  // IPv4射影アドレス（::ffff:127.0.0.1 / ::ffff:7f00:1）はIPv4として判定する
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  if (mapped) {
+    return PRIVATE_ADDRESSES.check(mapped[1], "ipv4");
+  }
+  const mappedHex = address.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/i);
+  if (mappedHex) {
+    const [high, low] = [mappedHex[1], mappedHex[2]].map((part) =>
+      parseInt(part, 16)
+    );
+    return PRIVATE_ADDRESSES.check(
+      [high >> 8, high & 0xff, low >> 8, low & 0xff].join("."),
+      "ipv4"
+    );
+  }
+  const family = isIP(address);
+  if (family === 0) {
+    return false;
+  }
+  return PRIVATE_ADDRESSES.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+/**
+ * ホストがドメインのパターンに一致するか
+ * "example.com" はそのホストのみ、"*.example.com" はサブドメインのみに一致する
+ */
+function matchesDomain(host: string, pattern: string): boolean {
+  if (pattern.startsWith("*.")) {
+    return host.endsWith(pattern.slice(1));
+  }
+  return host === pattern;
+}
+
+/**
+ * URLが制限を満たしているか確認する
+ * @param field エラーメッセージに表示する引数名
+ * @param value 確認するURL
+ * @param config URLの制限
+ * @throws UrlPolicyError 制限に違反している場合
+ */
+export async function assertUrlAllowed(
+  field: string,
+  value: string,
+  config: UrlPolicyConfig = getUrlPolicyConfig()
+): Promise<void> {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    throw new UrlPolicyError(field, value, "not a valid absolute URL");
+  }
+
+  const scheme = url.protocol.replace(/:$/, "");
+  if (!config.allowedSchemes.includes(scheme)) {
+    throw new UrlPolicyError(
+      field,
+      value,
+      `scheme "${scheme}" is not allowed (allowed: ${config.allowedSchemes.join(", ")})`
+    );
+  }
+
+  // IPv6 アドレスは [::1] のように括弧つきで返される
+  const host = url.hostname.replace(/^\[|\]$/g, "").toLowerCase();
+  if (!host) {
+    throw new UrlPolicyError(field, value, "URL has no host");
+  }
+  if (config.denyDomains.some((pattern) => matchesDomain(host, pattern))) {
+    throw new UrlPolicyError(field, value, `host "${host}" is denied`);
+  }
+  if (
+    config.allowDomains.length > 0 &&
+    !config.allowDomains.some((pattern) => matchesDomain(host, pattern))
+  ) {
+    throw new UrlPolicyError(
+      field,
+      value,
+      `host "${host}" is not in the allowed domains`
+    );
+  }
+
+  if (!config.blockPrivateAddresses) {
+    return;
+  }
+  let addresses: string[];
+  if (isIP(host)) {
+    addresses = [host];
+  } else {
+    try {
+      addresses = (await lookup(host, { all: true, verbatim: true })).map(
+        (entry) => entry.address
+      );
+    } catch (error) {
+      // 解決できないホストは、Firecrawl側で内部のアドレスに解決される可能性があるため拒否する
+      logger.debug("Failed to resolve host for URL policy", { host, error });
+      throw new UrlPolicyError(
+        field,
+        value,
+        `host "${host}" could not be resolved`
+      );
+    }
+  }
+  const blocked = addresses.find(isPrivateAddress);
+  if (blocked) {
+    throw new UrlPolicyError(
+      field,
+      value,
+      `host "${host}" resolves to a private, loopback or link-local address (${blocked})`
+    );
+  }
+}
+
+// URLを取得せず、既存の結果の絞り込みにだけURLを使うツール（取得済みの結果は内部のURLでも読めるようにする）
+const RESULT_FILTER_TOOLS = new Set(["firecrawl_get_crawl_results"]);
+
+/**
+ * ツールの引数に含まれるURLを列挙する
+ * url（文字列）、urls（文字列の配列）、webhook（文字列または { url }）を対象とする
+ */
+export function collectToolUrls(
+  args: Record<string, unknown>
+): { field: string; url: string }[] {
+  const urls: { field: string; url: string }[] = [];
+  if (typeof args.url === "string") {
+    urls.push({ field: "url", url: args.url });
+  }
+  if (Array.isArray(args.urls)) {
+    args.urls.forEach((url, index) => {
+      if (typeof url === "string") {
+        urls.push({ field: `urls[${index}]`, url });
+      }
+    });
+  }
+  const webhook = args.webhook;
+  if (typeof webhook === "string") {
+    urls.push({ field: "webhook", url: webhook });
+  } else if (
+    webhook &&
+    typeof webhook === "object" &&
+    "url" in webhook &&
+    typeof webhook.url === "string"
+  ) {
+    urls.push({ field: "webhook.url", url: webhook.url });
+  }
+  return urls;
+}
+
+/**
+ * ツールの引数のURLを制限に従って確認するミドルウェア
+ * 違反している場合は、Firecrawl APIを呼ばずにエラーを返す
+ */
+export function urlPolicyMiddleware(): ToolMiddleware {
+  return async ({ toolName, args }, next) => {
+    if (RESULT_FILTER_TOOLS.has(toolName)) {
+      return next();
+    }
+    const config = getUrlPolicyConfig();
+    try {
+      await Promise.all(
+        collectToolUrls(args).map(({ field, url }) =>
+          assertUrlAllowed(field, url, config)
+        )
+      );
+    } catch (error) {
+      if (!(error instanceof UrlPolicyError)) {
+        throw error;
+      }
+      logger.warn("Rejected tool call by URL policy", {
+        field: error.field,
+        url: error.url,
+        reason: error.reason,
+      });
+      return {
+        content: [{ type: "text", text: `Error: ${error.message}` }],
+        isError: true,
+      };
+    }
+    return next();
+  };
+}